@@ -0,0 +1,109 @@
+import { IndexedDBManager } from '../core/IndexedDBManager';
+import { BulkError } from '../core/errors';
+import { BulkProgress, ChangeSet, DatabaseConfig } from '../types';
+
+describe('Bulk operations', () => {
+  let manager: IndexedDBManager;
+
+  const config: DatabaseConfig = {
+    name: 'BulkTestDB',
+    version: 1,
+    stores: [
+      {
+        name: 'users',
+        keyPath: 'id',
+        autoIncrement: true,
+        indexes: [{ name: 'email', keyPath: 'email', unique: true }]
+      }
+    ]
+  };
+
+  const users = (count: number) =>
+    Array.from({ length: count }, (_, index) => ({ email: `user${index}@example.com` }));
+
+  beforeEach(async () => {
+    const deleteReq = indexedDB.deleteDatabase('BulkTestDB');
+    await new Promise((resolve) => {
+      deleteReq.onsuccess = resolve;
+      deleteReq.onerror = resolve;
+    });
+
+    manager = new IndexedDBManager(config);
+    await manager.connect();
+  });
+
+  afterEach(async () => {
+    await manager.disconnect();
+  });
+
+  test('adds records in chunks and returns the generated keys', async () => {
+    const progress: BulkProgress[] = [];
+    const changeSets: ChangeSet[] = [];
+    manager.subscribeChanges('users', changeSet => changeSets.push(changeSet));
+
+    const { results, failures } = await manager.bulkAdd('users', users(5), {
+      chunkSize: 2,
+      onProgress: update => progress.push(update)
+    });
+
+    expect(results).toEqual([1, 2, 3, 4, 5]);
+    expect(failures).toEqual([]);
+    expect(progress).toEqual([
+      { completed: 2, total: 5, failed: 0 },
+      { completed: 4, total: 5, failed: 0 },
+      { completed: 5, total: 5, failed: 0 }
+    ]);
+    expect(changeSets.map(changeSet => changeSet.changes.length)).toEqual([2, 2, 1]);
+  });
+
+  test('keeps going past failures when continueOnError is set', async () => {
+    await manager.add('users', { id: 3, email: 'taken@example.com' });
+
+    const { results, failures } = await manager.bulkAdd('users', [
+      { id: 1, email: 'a@example.com' },
+      { id: 3, email: 'b@example.com' },
+      { id: 5, email: 'c@example.com' }
+    ], { continueOnError: true });
+
+    expect(results).toEqual([1, undefined, 5]);
+    expect(failures).toHaveLength(1);
+    expect(failures[0].index).toBe(1);
+    expect(failures[0].error.name).toBe('ConstraintError');
+    expect(await manager.count('users')).toBe(3);
+  });
+
+  test('rolls back the failing chunk and stops otherwise', async () => {
+    const records = users(6);
+    records[3] = { email: records[0].email };
+
+    const error: BulkError = await manager.bulkAdd('users', records, { chunkSize: 2 }).catch(err => err);
+
+    expect(error).toBeInstanceOf(BulkError);
+    expect(error.committed).toBe(2);
+    expect(error.failures.map(failure => failure.index)).toEqual([3]);
+    expect(error.results).toEqual([1, 2, undefined, undefined, undefined, undefined]);
+    expect(await manager.count('users')).toBe(2);
+  });
+
+  test('puts, gets and deletes by key', async () => {
+    await manager.bulkPut('users', [{ id: 1, email: 'a' }, { id: 2, email: 'b' }]);
+    await manager.bulkPut('users', [{ id: 2, email: 'B' }]);
+
+    const { results } = await manager.bulkGet('users', [1, 2, 3]);
+    expect(results).toEqual([{ id: 1, email: 'a' }, { id: 2, email: 'B' }, undefined]);
+
+    await manager.bulkDelete('users', [1, 3]);
+    expect(await manager.getAll('users')).toEqual([{ id: 2, email: 'B' }]);
+  });
+
+  test('reports invalid keys as failures', async () => {
+    const { failures } = await manager.bulkGet('users', [1, {} as IDBValidKey], { continueOnError: true });
+
+    expect(failures.map(failure => [failure.index, failure.error.name])).toEqual([[1, 'DataError']]);
+  });
+
+  test('rejects invalid chunk sizes', async () => {
+    await expect(manager.bulkAdd('users', users(1), { chunkSize: 0 }))
+      .rejects.toThrow('Bulk chunk size must be a positive integer');
+  });
+});
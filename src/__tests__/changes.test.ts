@@ -0,0 +1,260 @@
+import { IndexedDBManager } from '../core/IndexedDBManager';
+import { applyChangeSet, changeAffectsQuery, recordChange } from '../core/changes';
+import { ChangeSet, DatabaseConfig } from '../types';
+
+describe('Change notifications', () => {
+  let manager: IndexedDBManager;
+  let changeSets: ChangeSet[];
+
+  const config: DatabaseConfig = {
+    name: 'ChangesTestDB',
+    version: 1,
+    stores: [
+      {
+        name: 'users',
+        keyPath: 'id',
+        autoIncrement: true,
+        indexes: [{ name: 'age', keyPath: 'age' }]
+      },
+      { name: 'settings' }
+    ]
+  };
+
+  const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  beforeEach(async () => {
+    const deleteReq = indexedDB.deleteDatabase('ChangesTestDB');
+    await new Promise((resolve) => {
+      deleteReq.onsuccess = resolve;
+      deleteReq.onerror = resolve;
+    });
+
+    manager = new IndexedDBManager(config);
+    await manager.connect();
+    changeSets = [];
+    manager.subscribeChanges('users', changeSet => changeSets.push(changeSet));
+  });
+
+  afterEach(async () => {
+    await manager.disconnect();
+  });
+
+  test('reports added records with their generated keys', async () => {
+    const key = await manager.add('users', { name: 'John', age: 30 });
+
+    expect(changeSets).toEqual([
+      {
+        storeName: 'users',
+        changes: [{ type: 'add', key, value: { id: key, name: 'John', age: 30 } }]
+      }
+    ]);
+  });
+
+  test('distinguishes inserts from updates on put', async () => {
+    await manager.put('users', { id: 7, name: 'Jane', age: 25 });
+    await manager.put('users', { id: 7, name: 'Jane', age: 26 });
+
+    expect(changeSets.map(changeSet => changeSet.changes[0].type)).toEqual(['add', 'update']);
+    expect(changeSets[1].changes[0]).toEqual({
+      type: 'update',
+      key: 7,
+      value: { id: 7, name: 'Jane', age: 26 }
+    });
+  });
+
+  test('lists every key removed by a range delete', async () => {
+    for (const age of [20, 30, 40]) {
+      await manager.add('users', { age });
+    }
+    changeSets = [];
+
+    await manager.delete('users', IDBKeyRange.bound(2, 10));
+
+    expect(changeSets).toEqual([
+      { storeName: 'users', changes: [{ type: 'delete', key: 2 }, { type: 'delete', key: 3 }] }
+    ]);
+  });
+
+  test('records query modifications, deletes and clears', async () => {
+    for (const age of [20, 30, 40]) {
+      await manager.add('users', { age });
+    }
+    changeSets = [];
+
+    await manager.query('users').where('age').above(25).modify({ senior: true });
+    await manager.query('users').where('age').below(25).delete();
+    await manager.clear('users');
+
+    expect(changeSets.map(changeSet => changeSet.changes)).toEqual([
+      [
+        { type: 'update', key: 2, value: { id: 2, age: 30, senior: true } },
+        { type: 'update', key: 3, value: { id: 3, age: 40, senior: true } }
+      ],
+      [{ type: 'delete', key: 1 }],
+      [{ type: 'clear' }]
+    ]);
+  });
+
+  test('groups changes by store and skips read-only transactions', async () => {
+    const settingsChanges: ChangeSet[] = [];
+    manager.subscribeChanges('settings', changeSet => settingsChanges.push(changeSet));
+
+    await manager.put('settings', 'dark', 'theme');
+    await manager.get('settings', 'theme');
+    await manager.getAll('users');
+    await flush();
+
+    expect(changeSets).toEqual([]);
+    expect(settingsChanges).toEqual([
+      { storeName: 'settings', changes: [{ type: 'add', key: 'theme', value: 'dark' }] }
+    ]);
+  });
+
+  test('passes the change set to data subscribers', async () => {
+    // The first call delivers the initial contents without a change set.
+    const notified = new Promise<[unknown[], ChangeSet | undefined]>(resolve => {
+      manager.subscribe('users', (data, changeSet) => {
+        if (changeSet) resolve([data, changeSet]);
+      });
+    });
+
+    await manager.add('users', { name: 'John' });
+
+    const [data, changeSet] = await notified;
+    expect(data).toEqual([{ id: 1, name: 'John' }]);
+    expect(changeSet).toEqual(changeSets[0]);
+  });
+
+  test('notifies record subscribers only about their key', async () => {
+    const changes: ChangeSet['changes'] = [];
+    manager.subscribeRecord('users', 2, change => changes.push(change));
+
+    await manager.bulkAdd('users', [{ name: 'John' }, { name: 'Jane' }]);
+    await manager.put('users', { id: 1, name: 'Johnny' });
+    await manager.put('users', { id: 2, name: 'Janet' });
+    await manager.delete('users', IDBKeyRange.bound(2, 3));
+    await flush();
+
+    expect(changes).toEqual([
+      { type: 'add', key: 2, value: { id: 2, name: 'Jane' } },
+      { type: 'update', key: 2, value: { id: 2, name: 'Janet' } },
+      { type: 'delete', key: 2 }
+    ]);
+  });
+
+  test('recordChange picks the last change touching a key', () => {
+    const changeSet: ChangeSet = {
+      storeName: 'users',
+      changes: [
+        { type: 'add', key: [1, 'a'], value: { name: 'first' } },
+        { type: 'update', key: [1, 'a'], value: { name: 'second' } },
+        { type: 'delete', key: [2, 'a'] }
+      ]
+    };
+
+    expect(recordChange(changeSet, [1, 'a'])).toEqual({ type: 'update', key: [1, 'a'], value: { name: 'second' } });
+    expect(recordChange(changeSet, [3, 'a'])).toBeNull();
+    expect(recordChange({ ...changeSet, changes: [...changeSet.changes, { type: 'clear' }] }, [3, 'a']))
+      .toEqual({ type: 'clear' });
+  });
+
+  describe('applyChangeSet', () => {
+    const records = [{ id: 1, name: 'a' }, { id: 3, name: 'c' }];
+
+    test('patches records in primary key order', () => {
+      const patched = applyChangeSet(records, {
+        storeName: 'users',
+        changes: [
+          { type: 'add', key: 2, value: { id: 2, name: 'b' } },
+          { type: 'update', key: 3, value: { id: 3, name: 'C' } },
+          { type: 'delete', key: 1 }
+        ]
+      }, 'id');
+
+      expect(patched).toEqual([{ id: 2, name: 'b' }, { id: 3, name: 'C' }]);
+      expect(records).toHaveLength(2);
+    });
+
+    test('cannot patch stores with out-of-line keys', () => {
+      const patched = applyChangeSet(records, {
+        storeName: 'users',
+        changes: [{ type: 'clear' }]
+      }, undefined);
+
+      expect(patched).toBeNull();
+    });
+  });
+
+  describe('changeAffectsQuery', () => {
+    const storeConfig = config.stores[0];
+    const results = [{ id: 1, age: 21 }, { id: 2, age: 25 }];
+    const changeSet = (...changes: ChangeSet['changes']): ChangeSet => ({ storeName: 'users', changes });
+    const ageRange = { index: 'age', query: IDBKeyRange.bound(20, 30) };
+
+    test('ignores writes outside the observed index range', () => {
+      expect(changeAffectsQuery(
+        changeSet({ type: 'add', key: 3, value: { id: 3, age: 45 } }),
+        storeConfig, ageRange, results
+      )).toBe(false);
+
+      expect(changeAffectsQuery(
+        changeSet({ type: 'add', key: 3, value: { id: 3, age: 22 } }),
+        storeConfig, ageRange, results
+      )).toBe(true);
+    });
+
+    test('re-runs when a displayed record moves out of range or is deleted', () => {
+      expect(changeAffectsQuery(
+        changeSet({ type: 'update', key: 2, value: { id: 2, age: 50 } }),
+        storeConfig, ageRange, results
+      )).toBe(true);
+
+      expect(changeAffectsQuery(
+        changeSet({ type: 'delete', key: 2 }),
+        storeConfig, ageRange, results
+      )).toBe(true);
+
+      expect(changeAffectsQuery(
+        changeSet({ type: 'delete', key: 9 }),
+        storeConfig, ageRange, results
+      )).toBe(false);
+    });
+
+    test('treats deletes as affecting offset windows and changes without values as unknown', () => {
+      expect(changeAffectsQuery(
+        changeSet({ type: 'delete', key: 9 }),
+        storeConfig, { ...ageRange, offset: 10 }, results
+      )).toBe(true);
+
+      expect(changeAffectsQuery(
+        changeSet({ type: 'update', key: 9 }),
+        storeConfig, ageRange, results
+      )).toBe(true);
+    });
+
+    test('checks primary key ranges and filters', () => {
+      const options = { query: IDBKeyRange.upperBound(5), filter: (user: { age: number }) => user.age > 18 };
+
+      expect(changeAffectsQuery(
+        changeSet({ type: 'add', key: 3, value: { id: 3, age: 10 } }),
+        storeConfig, options, results
+      )).toBe(false);
+
+      expect(changeAffectsQuery(
+        changeSet({ type: 'add', key: 8, value: { id: 8, age: 40 } }),
+        storeConfig, options, results
+      )).toBe(false);
+    });
+  });
+
+  test('trackStores reports every store a querier reads', async () => {
+    const { result, stores } = await manager.trackStores(async () => {
+      const users = await manager.query('users').where('age').above(18).toArray();
+      const theme = await manager.get('settings', 'theme');
+      return { users, theme };
+    });
+
+    expect(result).toEqual({ users: [], theme: undefined });
+    expect(stores.sort()).toEqual(['settings', 'users']);
+  });
+});
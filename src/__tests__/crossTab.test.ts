@@ -0,0 +1,122 @@
+import { IndexedDBManager } from '../core/IndexedDBManager';
+import { applyChangeSet } from '../core/changes';
+import { createStorageChannel, MemoryChannelHub } from '../core/channel';
+import { ChangeMessage, ChangeSet, DatabaseConfig } from '../types';
+
+describe('Cross-tab synchronization', () => {
+  let hub: MemoryChannelHub;
+  let first: IndexedDBManager;
+  let second: IndexedDBManager;
+
+  const config: DatabaseConfig = {
+    name: 'CrossTabTestDB',
+    version: 1,
+    stores: [{ name: 'notes', keyPath: 'id', autoIncrement: true }]
+  };
+
+  const flush = () => new Promise(resolve => setTimeout(resolve, 10));
+
+  beforeEach(async () => {
+    const deleteReq = indexedDB.deleteDatabase('CrossTabTestDB');
+    await new Promise((resolve) => {
+      deleteReq.onsuccess = resolve;
+      deleteReq.onerror = resolve;
+    });
+
+    hub = new MemoryChannelHub();
+    first = new IndexedDBManager(config, { channelFactory: hub.createChannel });
+    second = new IndexedDBManager(config, { channelFactory: hub.createChannel });
+    await first.connect();
+    await second.connect();
+  });
+
+  afterEach(async () => {
+    await first.disconnect();
+    await second.disconnect();
+  });
+
+  test('delivers change sets to other managers as remote changes', async () => {
+    const local: ChangeSet[] = [];
+    const remote: ChangeSet[] = [];
+    first.subscribeChanges('notes', changeSet => local.push(changeSet));
+    second.subscribeChanges('notes', changeSet => remote.push(changeSet));
+
+    await first.add('notes', { text: 'hello' });
+    await flush();
+
+    expect(local).toEqual([
+      { storeName: 'notes', changes: [{ type: 'add', key: 1, value: { id: 1, text: 'hello' } }] }
+    ]);
+    expect(remote).toEqual([{ ...local[0], remote: true }]);
+  });
+
+  test('refreshes data subscribers in the other tab', async () => {
+    const callback = jest.fn();
+    second.subscribe('notes', callback);
+    await flush();
+
+    await first.add('notes', { text: 'hello' });
+    await flush();
+
+    const [data, changeSet] = callback.mock.calls[callback.mock.calls.length - 1];
+    expect(data).toEqual([{ id: 1, text: 'hello' }]);
+    expect(changeSet.remote).toBe(true);
+  });
+
+  test('does not echo remote changes back', async () => {
+    const local = jest.fn();
+    first.subscribeChanges('notes', local);
+
+    await first.add('notes', { text: 'hello' });
+    await flush();
+    await flush();
+
+    expect(local).toHaveBeenCalledTimes(1);
+  });
+
+  test('can be turned off', async () => {
+    const isolated = new IndexedDBManager(config, { crossTab: false, channelFactory: hub.createChannel });
+    await isolated.connect();
+    const remote = jest.fn();
+    isolated.subscribeChanges('notes', remote);
+
+    await first.add('notes', { text: 'hello' });
+    await flush();
+
+    expect(remote).not.toHaveBeenCalled();
+    await isolated.disconnect();
+  });
+
+  test('storage fallback sends keys without values', () => {
+    const channel = createStorageChannel('storage-test');
+    const received: ChangeMessage[] = [];
+    const unsubscribe = channel.subscribe(message => received.push(message));
+
+    channel.postMessage({
+      changeSet: {
+        storeName: 'notes',
+        changes: [
+          { type: 'add', key: 1, value: { id: 1 } },
+          { type: 'update', key: new Date(0), value: { id: new Date(0) } }
+        ]
+      }
+    });
+    window.dispatchEvent(new StorageEvent('storage', {
+      key: 'storage-test',
+      newValue: window.localStorage.getItem('storage-test')
+    }));
+    unsubscribe();
+
+    expect(received).toEqual([
+      { changeSet: { storeName: 'notes', changes: [{ type: 'add', key: 1 }, { type: 'update' }] } }
+    ]);
+  });
+
+  test('changes without keys cannot be patched in place', () => {
+    expect(applyChangeSet([{ id: 1 }], {
+      storeName: 'notes',
+      changes: [{ type: 'update' }],
+      remote: true
+    }, 'id')).toBeNull();
+  });
+});
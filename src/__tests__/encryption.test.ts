@@ -0,0 +1,148 @@
+/**
+ * @jest-environment node
+ */
+import { IndexedDBManager } from '../core/IndexedDBManager';
+import { ENCRYPTED_FIELD } from '../core/encryption';
+import { ChangeSet, DatabaseConfig, EncryptionKeys } from '../types';
+
+describe('Field encryption', () => {
+  let manager: IndexedDBManager;
+  let keys: EncryptionKeys;
+
+  const config: DatabaseConfig = {
+    name: 'EncryptionTestDB',
+    version: 1,
+    stores: [
+      {
+        name: 'patients',
+        keyPath: 'id',
+        indexes: [{ name: 'email', keyPath: 'email' }],
+        encryption: { fields: ['name', 'address.street'], blindIndex: ['email'] }
+      },
+      { name: 'plain', keyPath: 'id' }
+    ]
+  };
+
+  const patient = {
+    id: 1,
+    name: 'Ada',
+    email: 'ada@example.com',
+    address: { street: '1 Main St', city: 'London' }
+  };
+
+  const readRaw = (storeName: string, key: IDBValidKey) => {
+    const db = manager.getDatabase()!;
+    return new Promise<Record<string, unknown>>((resolve, reject) => {
+      const request = db.transaction(storeName).objectStore(storeName).get(key);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  beforeAll(async () => {
+    keys = {
+      key: await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']),
+      blindIndexKey: await crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+    };
+  });
+
+  beforeEach(async () => {
+    const deleteReq = indexedDB.deleteDatabase('EncryptionTestDB');
+    await new Promise((resolve) => {
+      deleteReq.onsuccess = resolve;
+      deleteReq.onerror = resolve;
+    });
+
+    manager = new IndexedDBManager(config, { encryption: keys });
+    await manager.connect();
+  });
+
+  afterEach(async () => {
+    await manager.disconnect();
+  });
+
+  test('stores selected fields encrypted and decrypts them on read', async () => {
+    await manager.add('patients', patient);
+
+    const raw = await readRaw('patients', 1);
+    expect(raw.name).toBeUndefined();
+    expect(raw.address).toEqual({ city: 'London' });
+    expect(raw.email).toMatch(/^[0-9a-f]{64}$/);
+    expect(raw[ENCRYPTED_FIELD].data).toBeDefined();
+    expect(JSON.stringify(raw)).not.toContain('Ada');
+
+    expect(await manager.get('patients', 1)).toEqual(patient);
+    expect(await manager.getAll('patients')).toEqual([patient]);
+  });
+
+  test('answers equality lookups through a blind index', async () => {
+    await manager.bulkPut('patients', [patient, { ...patient, id: 2, email: 'bob@example.com' }]);
+
+    const matches = await manager.query('patients').where('email').equals('ada@example.com').toArray();
+    expect(matches).toEqual([patient]);
+    expect(await manager.query('patients').where('email').equals('bob@example.com').count()).toBe(1);
+
+    await expect(
+      manager.query('patients').where('email').startsWith('ada').toArray()
+    ).rejects.toThrow('only supports equality lookups');
+  });
+
+  test('keeps dates, maps and binary values in encrypted fields', async () => {
+    const visit = {
+      id: 1,
+      name: { seenAt: new Date(0), codes: new Map([['icd', 'J45']]), scan: new Uint8Array([1, 2, 3]) }
+    };
+    await manager.put('patients', visit);
+
+    const stored = await manager.get<typeof visit>('patients', 1);
+    expect(stored).toEqual(visit);
+    expect(stored!.name.seenAt).toBeInstanceOf(Date);
+  });
+
+  test('filters and sorts on decrypted values', async () => {
+    await manager.bulkPut('patients', [
+      patient,
+      { ...patient, id: 2, name: 'Bob', email: 'bob@example.com' },
+      { ...patient, id: 3, name: 'Ada', email: 'ada2@example.com' }
+    ]);
+    const patients = manager.query<typeof patient>('patients');
+
+    expect((await patients.where('name').equals('Ada').toArray()).map(match => match.id)).toEqual([1, 3]);
+    expect(await patients.filter(match => match.name === 'Ada').offset(1).first()).toMatchObject({ id: 3 });
+    expect(await patients.filter(match => match.address.street === '1 Main St').count()).toBe(3);
+
+    await expect(patients.filter(match => match.name === 'Ada').keys()).rejects.toThrow('filter()');
+    await expect(patients.orderBy('name').toArray()).rejects.toThrow('encrypted field "name"');
+  });
+
+  test('decrypts values delivered to subscribers', async () => {
+    const changeSets: ChangeSet[] = [];
+    manager.subscribeChanges('patients', changeSet => changeSets.push(changeSet));
+
+    await manager.put('patients', patient);
+
+    expect(changeSets).toHaveLength(1);
+    expect(changeSets[0].changes[0].value).toEqual(patient);
+  });
+
+  test('leaves stores without an encryption config untouched', async () => {
+    await manager.add('plain', { id: 1, name: 'Ada' });
+
+    expect(await readRaw('plain', 1)).toEqual({ id: 1, name: 'Ada' });
+  });
+
+  test('refuses to write encrypted stores without a key', async () => {
+    const unkeyed = new IndexedDBManager(config);
+
+    await expect(unkeyed.add('patients', patient)).rejects.toThrow('no encryption key was provided');
+    await unkeyed.disconnect();
+  });
+
+  test('refuses encrypted stores inside transaction callbacks and modify', async () => {
+    await expect(manager.transaction('patients', 'readwrite', async (tx) => {
+      await tx.store('patients').put(patient);
+    })).rejects.toThrow('cannot be used inside transaction() callbacks');
+
+    await expect(manager.query('patients').modify({ name: 'Eve' })).rejects.toThrow('modify()');
+  });
+});
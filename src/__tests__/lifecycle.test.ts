@@ -0,0 +1,212 @@
+import { IndexedDBManager } from '../core/IndexedDBManager';
+import { ConnectionError } from '../core/errors';
+import { ConnectionPolicy, ConnectionStatus, DatabaseConfig } from '../types';
+
+describe('Connection lifecycle', () => {
+  const config: DatabaseConfig = {
+    name: 'LifecycleTestDB',
+    version: 1,
+    stores: [{ name: 'notes', keyPath: 'id', autoIncrement: true }]
+  };
+
+  const upgraded: DatabaseConfig = {
+    ...config,
+    version: 2,
+    stores: [...config.stores, { name: 'tags', keyPath: 'id' }]
+  };
+
+  const managers: IndexedDBManager[] = [];
+
+  const createManager = (
+    databaseConfig: DatabaseConfig,
+    autoReconnect?: boolean,
+    connection?: ConnectionPolicy
+  ) => {
+    const manager = new IndexedDBManager(databaseConfig, { crossTab: false, autoReconnect, connection });
+    managers.push(manager);
+    return manager;
+  };
+
+  const recordStatuses = (manager: IndexedDBManager) => {
+    const statuses: ConnectionStatus[] = [];
+    manager.onStatusChange(status => statuses.push(status));
+    return statuses;
+  };
+
+  const waitFor = async (condition: () => boolean) => {
+    for (let attempt = 0; attempt < 50 && !condition(); attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  };
+
+  beforeEach(async () => {
+    const deleteReq = indexedDB.deleteDatabase('LifecycleTestDB');
+    await new Promise((resolve) => {
+      deleteReq.onsuccess = resolve;
+      deleteReq.onerror = resolve;
+    });
+  });
+
+  afterEach(async () => {
+    await Promise.all(managers.splice(0).map(manager => manager.disconnect()));
+  });
+
+  test('reports connecting, upgrading and open', async () => {
+    const manager = createManager(config);
+    const statuses = recordStatuses(manager);
+
+    await manager.connect();
+
+    expect(statuses).toEqual(['connecting', 'upgrading', 'open']);
+    expect(manager.getStatus()).toBe('open');
+  });
+
+  test('shares one open request between concurrent connects', async () => {
+    const manager = createManager(config);
+
+    const [first, second] = await Promise.all([manager.connect(), manager.connect()]);
+
+    expect(first).toBe(second);
+  });
+
+  test('reconnects at the newer version after another tab upgrades', async () => {
+    const stale = createManager(config);
+    await stale.add('notes', { text: 'kept' });
+    const statuses = recordStatuses(stale);
+
+    await createManager(upgraded).connect();
+    await waitFor(() => stale.getStatus() === 'open');
+
+    expect(statuses).toEqual(['closedByOtherTab', 'reconnecting', 'open']);
+    expect(stale.getDatabase()?.version).toBe(2);
+    expect(await stale.getAll('notes')).toEqual([{ id: 1, text: 'kept' }]);
+  });
+
+  test('stays closed when auto reconnect is disabled or the database is deleted', async () => {
+    const manual = createManager(config, false);
+    await manual.connect();
+
+    const current = createManager(upgraded);
+    await current.connect();
+    expect(manual.getStatus()).toBe('closedByOtherTab');
+    expect(manual.isConnected()).toBe(false);
+
+    const deleteReq = indexedDB.deleteDatabase('LifecycleTestDB');
+    await new Promise(resolve => {
+      deleteReq.onsuccess = resolve;
+    });
+    expect(current.getStatus()).toBe('closedByOtherTab');
+  });
+
+  test('reports blocked while an older connection stays open', async () => {
+    const holder = await new Promise<IDBDatabase>((resolve) => {
+      const request = indexedDB.open('LifecycleTestDB', 1);
+      request.onsuccess = () => resolve(request.result);
+    });
+    holder.onversionchange = () => undefined;
+
+    const manager = createManager(upgraded);
+    const statuses = recordStatuses(manager);
+    const blocked = jest.fn();
+    manager.onStatusChange((status, event) => {
+      if (status === 'blocked') blocked(event?.newVersion);
+    });
+
+    const connecting = manager.connect();
+    await waitFor(() => statuses.includes('blocked'));
+    holder.close();
+    await connecting;
+
+    expect(blocked).toHaveBeenCalledWith(2);
+    expect(statuses).toEqual(['connecting', 'blocked', 'upgrading', 'open']);
+  });
+
+  describe('operation queueing', () => {
+    const openHolder = () => new Promise<IDBDatabase>((resolve) => {
+      const request = indexedDB.open('LifecycleTestDB', 1);
+      request.onsuccess = () => {
+        request.result.onversionchange = () => undefined;
+        resolve(request.result);
+      };
+    });
+
+    const failingOpen = () => {
+      const request: Partial<IDBOpenDBRequest> = {
+        error: new DOMException('Disk unavailable', 'UnknownError')
+      };
+      setTimeout(() => (request.onerror as () => void)());
+      return request as IDBOpenDBRequest;
+    };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('runs operations issued before the connection opens, in order', async () => {
+      const manager = createManager(config);
+      const statuses = recordStatuses(manager);
+
+      const [key, notes] = await Promise.all([
+        manager.add('notes', { text: 'first' }),
+        manager.getAll('notes')
+      ]);
+
+      expect(key).toBe(1);
+      expect(notes).toEqual([{ id: 1, text: 'first' }]);
+      expect(statuses.filter(status => status === 'connecting')).toHaveLength(1);
+    });
+
+    test('waits while an upgrade is blocked', async () => {
+      const holder = await openHolder();
+      const manager = createManager(upgraded);
+      const statuses = recordStatuses(manager);
+
+      const pending = manager.add('tags', { id: 'a' });
+      await waitFor(() => statuses.includes('blocked'));
+      holder.close();
+
+      expect(await pending).toBe('a');
+    });
+
+    test('gives up after the configured timeout', async () => {
+      const holder = await openHolder();
+      const manager = createManager(upgraded, true, { timeout: 50 });
+
+      const error = await manager.getAll('notes').catch(err => err);
+      holder.close();
+      await manager.connect();
+
+      expect(error).toBeInstanceOf(ConnectionError);
+      expect(error.message).toContain('Timed out after 50ms');
+    });
+
+    test('retries failed opens with backoff', async () => {
+      jest.spyOn(indexedDB, 'open')
+        .mockImplementationOnce(failingOpen)
+        .mockImplementationOnce(failingOpen);
+      const manager = createManager(config, true, { retries: 2, retryDelay: 1 });
+
+      expect(await manager.count('notes')).toBe(0);
+      expect(indexedDB.open).toHaveBeenCalledTimes(3);
+    });
+
+    test('reports the last failure once retries are exhausted', async () => {
+      jest.spyOn(indexedDB, 'open').mockImplementation(failingOpen);
+      const manager = createManager(config, true, { retries: 1, retryDelay: 1 });
+
+      const error = await manager.count('notes').catch(err => err);
+
+      expect(error).toBeInstanceOf(ConnectionError);
+      expect(error.message).toContain('after 2 attempt(s): Failed to open database: Disk unavailable');
+      expect(manager.getStatus()).toBe('error');
+    });
+
+    test('does not reopen a database another tab took over when auto reconnect is off', async () => {
+      const manual = createManager(config, false);
+      await manual.connect();
+      await createManager(upgraded).connect();
+
+      await expect(manual.count('notes')).rejects.toThrow('was closed by another tab');
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { IndexedDBManager } from '../core/IndexedDBManager';
+import { DatabaseConfig, Middleware, Operation } from '../types';
+
+describe('Middleware', () => {
+  let manager: IndexedDBManager;
+
+  const config: DatabaseConfig = {
+    name: 'MiddlewareTestDB',
+    version: 1,
+    stores: [
+      { name: 'notes', keyPath: 'id' },
+      { name: 'tags', keyPath: 'id' }
+    ]
+  };
+
+  const timestamps: Middleware = {
+    name: 'timestamps',
+    beforeOperation: (operation) => {
+      if (operation.type === 'add' || operation.type === 'put') {
+        return { ...operation, data: { ...operation.data, updatedAt: 100 } };
+      }
+    }
+  };
+
+  beforeEach(async () => {
+    const deleteReq = indexedDB.deleteDatabase('MiddlewareTestDB');
+    await new Promise((resolve) => {
+      deleteReq.onsuccess = resolve;
+      deleteReq.onerror = resolve;
+    });
+
+    manager = new IndexedDBManager(config, { middleware: [timestamps] });
+    await manager.connect();
+  });
+
+  afterEach(async () => {
+    await manager.disconnect();
+  });
+
+  test('rewrites operations before they reach the store', async () => {
+    await manager.add('notes', { id: 1, text: 'hello' });
+
+    expect(await manager.get('notes', 1)).toEqual({ id: 1, text: 'hello', updatedAt: 100 });
+  });
+
+  test('transforms results on the way out, innermost middleware first', async () => {
+    const seen: string[] = [];
+    manager.use({
+      afterOperation: (result, operation) => {
+        seen.push(`outer:${operation.type}`);
+        return Array.isArray(result) ? result.map(note => note.text) : result;
+      }
+    });
+    manager.use({
+      afterOperation: (result, operation) => {
+        seen.push(`inner:${operation.type}`);
+        return result;
+      }
+    });
+
+    await manager.add('notes', { id: 1, text: 'a' });
+    seen.length = 0;
+
+    expect(await manager.getAll('notes')).toEqual(['a']);
+    expect(seen).toEqual(['inner:getAll', 'outer:getAll']);
+  });
+
+  test('rejects operations that throw, without writing anything', async () => {
+    const readOnly: Middleware = {
+      beforeOperation: (operation, context) => {
+        if (context.storeName === 'tags' && operation.type !== 'get' && operation.type !== 'getAll') {
+          throw new Error('Tags are read-only');
+        }
+      }
+    };
+    manager.use(readOnly);
+
+    await expect(manager.executeTransaction({
+      store: ['notes', 'tags'],
+      mode: 'readwrite',
+      operations: [
+        { store: 'notes', type: 'add', data: { id: 1 } },
+        { store: 'tags', type: 'add', data: { id: 1 } }
+      ]
+    })).rejects.toThrow('Tags are read-only');
+
+    expect(await manager.count('notes')).toBe(0);
+  });
+
+  test('short-circuits operations with a result', async () => {
+    const cache = new Map<IDBValidKey, unknown>([[7, { id: 7, text: 'cached' }]]);
+    const calls: Operation[] = [];
+    manager.use({
+      beforeOperation: (operation) => {
+        if (operation.type === 'get' && cache.has(operation.key)) {
+          return { result: cache.get(operation.key) };
+        }
+      }
+    });
+    manager.use({
+      beforeOperation: (operation) => {
+        calls.push(operation);
+      }
+    });
+
+    expect(await manager.get('notes', 7)).toEqual({ id: 7, text: 'cached' });
+    expect(calls).toEqual([]);
+  });
+
+  test('stops running once unregistered', async () => {
+    const remove = manager.use({ afterOperation: () => 'intercepted' });
+    expect(await manager.count('notes')).toBe('intercepted');
+
+    remove();
+    expect(await manager.count('notes')).toBe(0);
+  });
+
+  test('runs inside transaction callbacks and bulk operations', async () => {
+    await manager.transaction('notes', 'readwrite', async (tx) => {
+      await tx.store('notes').put({ id: 1 });
+    });
+    await manager.bulkPut('notes', [{ id: 2 }, { id: 3 }], { chunkSize: 1 });
+
+    expect(await manager.getAll('notes')).toEqual([
+      { id: 1, updatedAt: 100 },
+      { id: 2, updatedAt: 100 },
+      { id: 3, updatedAt: 100 }
+    ]);
+  });
+
+  test('runs for every record rewritten by modify', async () => {
+    await manager.bulkPut('notes', [{ id: 1, text: 'a' }, { id: 2, text: 'b' }]);
+    const written: Operation[] = [];
+    manager.use({
+      beforeOperation: (operation) => {
+        if (operation.type === 'put') written.push(operation);
+      }
+    });
+
+    expect(await manager.query('notes').modify({ text: 'c' })).toBe(2);
+    expect(written.map(operation => operation.type === 'put' && operation.data)).toEqual([
+      { id: 1, text: 'c', updatedAt: 100 },
+      { id: 2, text: 'c', updatedAt: 100 }
+    ]);
+  });
+
+  test('rewrites deletes into soft deletes', async () => {
+    manager.use({
+      name: 'soft-delete',
+      beforeOperation: async (operation) => {
+        if (operation.type === 'delete' && operation.key !== undefined) {
+          const existing = await manager.get('notes', operation.key as IDBValidKey);
+          return { type: 'put', data: { ...existing, deleted: true } };
+        }
+      },
+      afterOperation: (result, operation) =>
+        operation.type === 'getAll' ? result.filter((note: { deleted?: boolean }) => !note.deleted) : result
+    });
+
+    await manager.bulkAdd('notes', [{ id: 1 }, { id: 2 }]);
+    await manager.delete('notes', 1);
+
+    expect(await manager.getAll('notes')).toEqual([{ id: 2, updatedAt: 100 }]);
+    expect(await manager.count('notes')).toBe(2);
+  });
+});
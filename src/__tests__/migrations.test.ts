@@ -0,0 +1,157 @@
+import { IndexedDBManager } from '../core/IndexedDBManager';
+import { DatabaseConfig } from '../types';
+
+describe('Schema migrations', () => {
+  const dbName = 'MigrationTestDB';
+
+  const v1: DatabaseConfig = {
+    name: dbName,
+    version: 1,
+    stores: [
+      { name: 'users', keyPath: 'id', autoIncrement: true },
+      { name: 'legacy', keyPath: 'id' }
+    ]
+  };
+
+  const deleteDatabase = async () => {
+    const deleteReq = indexedDB.deleteDatabase(dbName);
+    await new Promise((resolve) => {
+      deleteReq.onsuccess = resolve;
+      deleteReq.onerror = resolve;
+    });
+  };
+
+  beforeEach(async () => {
+    await deleteDatabase();
+    const manager = new IndexedDBManager(v1);
+    await manager.connect();
+    await manager.add('users', { name: 'John Doe', email: 'JOHN@EXAMPLE.COM' });
+    await manager.add('users', { name: 'Jane Doe', email: 'jane@example.com' });
+    await manager.put('legacy', { id: 1 });
+    await manager.disconnect();
+  });
+
+  afterEach(async () => {
+    await deleteDatabase();
+  });
+
+  test('runs pending steps in version order inside the upgrade', async () => {
+    const order: number[] = [];
+    const manager = new IndexedDBManager({
+      ...v1,
+      version: 3,
+      stores: [
+        {
+          name: 'users',
+          keyPath: 'id',
+          autoIncrement: true,
+          indexes: [{ name: 'email', keyPath: 'email', unique: true }]
+        }
+      ],
+      migrations: [
+        {
+          version: 3,
+          migrate: ({ deleteStore }) => {
+            order.push(3);
+            deleteStore('legacy');
+          }
+        },
+        {
+          version: 2,
+          migrate: async ({ createIndex, updateRecords, oldVersion, newVersion }) => {
+            order.push(2);
+            expect(oldVersion).toBe(1);
+            expect(newVersion).toBe(3);
+            createIndex('users', { name: 'email', keyPath: 'email', unique: true });
+            await updateRecords<{ email: string }>('users', user => ({
+              ...user,
+              email: user.email.toLowerCase()
+            }));
+          }
+        },
+        {
+          version: 1,
+          migrate: () => {
+            order.push(1);
+          }
+        }
+      ]
+    });
+
+    const db = await manager.connect();
+    expect(order).toEqual([2, 3]);
+    expect(db.objectStoreNames.contains('legacy')).toBe(false);
+
+    const users = await manager.getAll('users');
+    expect(users.map(user => user.email)).toEqual(['john@example.com', 'jane@example.com']);
+
+    const tx = db.transaction('users');
+    expect(tx.objectStore('users').indexNames.contains('email')).toBe(true);
+
+    await manager.disconnect();
+  });
+
+  test('deleteRecords removes matching records', async () => {
+    const manager = new IndexedDBManager({
+      ...v1,
+      version: 2,
+      migrations: [
+        {
+          version: 2,
+          migrate: async ({ deleteRecords }) => {
+            const deleted = await deleteRecords<{ name: string }>(
+              'users',
+              user => user.name === 'Jane Doe'
+            );
+            expect(deleted).toBe(1);
+          }
+        }
+      ]
+    });
+
+    await manager.connect();
+    const users = await manager.getAll('users');
+    expect(users).toHaveLength(1);
+    expect(users[0]).toMatchObject({ name: 'John Doe' });
+
+    await manager.disconnect();
+  });
+
+  test('a failing step aborts the upgrade and keeps the old version', async () => {
+    const manager = new IndexedDBManager({
+      ...v1,
+      version: 2,
+      migrations: [
+        {
+          version: 2,
+          migrate: ({ deleteStore }) => {
+            deleteStore('legacy');
+            throw new Error('boom');
+          }
+        }
+      ]
+    });
+
+    await expect(manager.connect()).rejects.toThrow('Migration to version 2 failed: boom');
+    expect(manager.isConnected()).toBe(false);
+
+    const previous = new IndexedDBManager(v1);
+    const db = await previous.connect();
+    expect(db.version).toBe(1);
+    expect(db.objectStoreNames.contains('legacy')).toBe(true);
+    await previous.disconnect();
+  });
+
+  test('rejects duplicate migration versions', async () => {
+    const manager = new IndexedDBManager({
+      ...v1,
+      version: 2,
+      migrations: [
+        { version: 2, migrate: () => undefined },
+        { version: 2, migrate: () => undefined }
+      ]
+    });
+
+    await expect(manager.connect()).rejects.toThrow('Duplicate migration for version 2');
+  });
+});
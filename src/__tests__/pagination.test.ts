@@ -0,0 +1,156 @@
+import { createElement, ReactNode } from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { IndexedDBProvider } from '../context/IndexedDBContext';
+import { IndexedDBManager } from '../core/IndexedDBManager';
+import { applyPageChanges, fetchPage } from '../core/pagination';
+import { usePaginatedQuery } from '../hooks/usePaginatedQuery';
+import { ChangeSet, DatabaseConfig, QueryPosition } from '../types';
+
+interface Row {
+  id: number;
+  group: string;
+}
+
+describe('Keyset pagination', () => {
+  let manager: IndexedDBManager;
+
+  const config: DatabaseConfig = {
+    name: 'PaginationTestDB',
+    version: 1,
+    stores: [
+      { name: 'rows', keyPath: 'id', indexes: [{ name: 'group', keyPath: 'group' }] },
+      { name: 'loose' }
+    ]
+  };
+
+  // Groups repeat, so pages have to continue from a primary key within an index key.
+  const rows: Row[] = Array.from({ length: 9 }, (_, index) => ({ id: index + 1, group: 'abc'[index % 3] }));
+  const storeConfig = config.stores[0];
+  const execute = (transaction: Parameters<IndexedDBManager['executeTransaction']>[0]) =>
+    manager.executeTransaction(transaction);
+  const ids = (records: Row[]) => records.map(record => record.id);
+
+  beforeEach(async () => {
+    const deleteReq = indexedDB.deleteDatabase('PaginationTestDB');
+    await new Promise((resolve) => {
+      deleteReq.onsuccess = resolve;
+      deleteReq.onerror = resolve;
+    });
+
+    manager = new IndexedDBManager(config);
+    await manager.connect();
+    await manager.bulkPut('rows', rows);
+  });
+
+  afterEach(async () => {
+    await manager.disconnect();
+  });
+
+  test('continues strictly after a position within an index', async () => {
+    const after: QueryPosition = { key: 'a', primaryKey: 4 };
+
+    expect(ids(await manager.find('rows', { index: 'group', after, limit: 3 }))).toEqual([7, 2, 5]);
+    expect(ids(await manager.find('rows', { index: 'group', after, direction: 'prev' }))).toEqual([1]);
+    expect(ids(await manager.find('rows', { after: { key: 6, primaryKey: 6 } }))).toEqual([7, 8, 9]);
+    expect(ids(await manager.query<Row>('rows').where('group').equals('b').after({ key: 'b', primaryKey: 2 }).toArray()))
+      .toEqual([5, 8]);
+  });
+
+  test('fetches consecutive pages through an index', async () => {
+    const pages: number[][] = [];
+    let after: QueryPosition | null = null;
+    let hasMore = true;
+
+    while (hasMore) {
+      const page: Awaited<ReturnType<typeof fetchPage<Row>>> =
+        await fetchPage<Row>(execute, storeConfig, { index: 'group' }, 4, after);
+      pages.push(ids(page.items));
+      after = page.endCursor;
+      hasMore = page.hasMore;
+    }
+
+    expect(pages).toEqual([[1, 4, 7, 2], [5, 8, 3, 6], [9]]);
+  });
+
+  test('is not thrown off by inserts before the cursor', async () => {
+    const first = await fetchPage<Row>(execute, storeConfig, { index: 'group', query: 'a' }, 2, null);
+    await manager.put('rows', { id: 0, group: 'a' });
+
+    const second = await fetchPage<Row>(execute, storeConfig, { index: 'group', query: 'a' }, 2, first.endCursor);
+    expect(ids(first.items)).toEqual([1, 4]);
+    expect(ids(second.items)).toEqual([7]);
+    expect(second.hasMore).toBe(false);
+  });
+
+  test('patches loaded pages with inserts, moves and deletes', () => {
+    const loaded = rows.filter(row => row.group === 'a');
+    const window = { endCursor: { key: 'a', primaryKey: 7 }, hasMore: true };
+    const changeSet: ChangeSet<Row> = {
+      storeName: 'rows',
+      changes: [
+        { type: 'add', key: 5.5, value: { id: 5.5, group: 'a' } },
+        { type: 'add', key: 10, value: { id: 10, group: 'a' } },
+        { type: 'update', key: 1, value: { id: 1, group: 'b' } },
+        { type: 'delete', key: 7 }
+      ]
+    };
+
+    const patched = applyPageChanges(loaded, changeSet, storeConfig, { index: 'group', query: 'a' }, window);
+    expect(patched && ids(patched)).toEqual([4, 5.5]);
+
+    const open = applyPageChanges(loaded, changeSet, storeConfig, { index: 'group', query: 'a' }, {
+      ...window,
+      hasMore: false
+    });
+    expect(open && ids(open)).toEqual([4, 5.5, 10]);
+  });
+
+  test('asks for a reload when a change cannot be placed', () => {
+    const result = applyPageChanges(rows, { storeName: 'rows', changes: [{ type: 'add' }] }, storeConfig, {}, {
+      endCursor: null,
+      hasMore: false
+    });
+    expect(result).toBeNull();
+  });
+
+  test('rejects stores and indexes it cannot address', async () => {
+    await expect(fetchPage(execute, config.stores[1], {}, 10, null)).rejects.toThrow('in-line keyPath');
+    await expect(fetchPage(execute, storeConfig, { index: 'missing' }, 10, null)).rejects.toThrow('not declared');
+    await expect(
+      manager.find('rows', { after: { key: 1, primaryKey: 1 }, orderBy: 'group' })
+    ).rejects.toThrow('orderBy');
+  });
+
+  describe('usePaginatedQuery', () => {
+    const wrapper = ({ children }: { children: ReactNode }) => createElement(IndexedDBProvider, { config }, children);
+
+    test('loads pages on demand and shares a page that is still loading', async () => {
+      let renders = 0;
+      const { result } = renderHook(() => {
+        renders++;
+        // An inline range is a new object on every render.
+        return usePaginatedQuery<Row>({ storeName: 'rows', index: 'group', query: IDBKeyRange.bound('a', 'b'), pageSize: 2 });
+      }, { wrapper });
+
+      await waitFor(() => expect(result.current.pageInfo.pagesLoaded).toBe(1));
+      expect(ids(result.current.data)).toEqual([1, 4]);
+      expect(result.current.hasMore).toBe(true);
+
+      await act(async () => {
+        const loading = result.current.loadMore();
+        expect(result.current.loadMore()).toBe(loading);
+        await loading;
+      });
+      expect(ids(result.current.data)).toEqual([1, 4, 7, 2]);
+
+      await act(() => result.current.loadMore());
+      expect(ids(result.current.data)).toEqual([1, 4, 7, 2, 5, 8]);
+      expect(result.current.hasMore).toBe(false);
+      expect(result.current.pageInfo.pagesLoaded).toBe(3);
+
+      const settled = renders;
+      await act(() => new Promise(resolve => setTimeout(resolve, 50)));
+      expect(renders).toBe(settled);
+    });
+  });
+});
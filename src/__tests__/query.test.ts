@@ -0,0 +1,168 @@
+import { IndexedDBManager } from '../core/IndexedDBManager';
+import { DatabaseConfig } from '../types';
+
+describe('Queries', () => {
+  let manager: IndexedDBManager;
+
+  const config: DatabaseConfig = {
+    name: 'QueryTestDB',
+    version: 1,
+    stores: [
+      {
+        name: 'users',
+        keyPath: 'id',
+        autoIncrement: true,
+        indexes: [
+          { name: 'email', keyPath: 'email', unique: true },
+          { name: 'age', keyPath: 'age' }
+        ]
+      }
+    ]
+  };
+
+  const users = [
+    { name: 'Alice', email: 'alice@example.com', age: 25 },
+    { name: 'Bob', email: 'bob@example.com', age: 35 },
+    { name: 'Charlie', email: 'charlie@example.com', age: 28 },
+    { name: 'Dana', email: 'dana@example.com', age: 19 },
+    { name: 'Eve', email: 'eve@example.com', age: 42 }
+  ];
+
+  beforeEach(async () => {
+    const deleteReq = indexedDB.deleteDatabase('QueryTestDB');
+    await new Promise((resolve) => {
+      deleteReq.onsuccess = resolve;
+      deleteReq.onerror = resolve;
+    });
+
+    manager = new IndexedDBManager(config);
+    await manager.connect();
+    for (const user of users) {
+      await manager.add('users', user);
+    }
+  });
+
+  afterEach(async () => {
+    await manager.disconnect();
+  });
+
+  const names = (records: Array<{ name: string }>) => records.map(record => record.name);
+
+  test('find reads through a named index in key order', async () => {
+    const result = await manager.find('users', { index: 'age' });
+    expect(names(result)).toEqual(['Dana', 'Alice', 'Charlie', 'Bob', 'Eve']);
+  });
+
+  test('find walks the cursor in reverse', async () => {
+    const result = await manager.find('users', { index: 'age', direction: 'prev' });
+    expect(names(result)).toEqual(['Eve', 'Bob', 'Charlie', 'Alice', 'Dana']);
+  });
+
+  test('find applies a key range, offset and limit', async () => {
+    const result = await manager.find('users', {
+      index: 'age',
+      query: IDBKeyRange.lowerBound(20),
+      offset: 1,
+      limit: 2
+    });
+    expect(names(result)).toEqual(['Charlie', 'Bob']);
+  });
+
+  test('find pages through the primary store', async () => {
+    const firstPage = await manager.find('users', { limit: 2 });
+    const secondPage = await manager.find('users', { offset: 2, limit: 2 });
+    const lastPage = await manager.find('users', { offset: 4, limit: 2 });
+
+    expect(names(firstPage)).toEqual(['Alice', 'Bob']);
+    expect(names(secondPage)).toEqual(['Charlie', 'Dana']);
+    expect(names(lastPage)).toEqual(['Eve']);
+  });
+
+  test('find returns nothing for a zero limit or an offset past the end', async () => {
+    expect(await manager.find('users', { limit: 0 })).toEqual([]);
+    expect(await manager.find('users', { offset: 10 })).toEqual([]);
+  });
+
+  test('find operations can be queued in a transaction', async () => {
+    const [oldest, total] = await manager.executeTransaction<[Array<{ name: string }>, number]>({
+      store: 'users',
+      mode: 'readonly',
+      operations: [
+        { type: 'find', options: { index: 'age', direction: 'prev', limit: 1 } },
+        { type: 'count' }
+      ]
+    });
+
+    expect(names(oldest)).toEqual(['Eve']);
+    expect(total).toBe(5);
+  });
+
+  describe('query builder', () => {
+    test('where().between() uses the matching index', async () => {
+      const query = manager.query('users').where('age').between(20, 30);
+      expect(query.toOptions()).toMatchObject({ index: 'age' });
+      expect(names(await query.toArray())).toEqual(['Alice', 'Charlie']);
+    });
+
+    test('where() on the primary key path reads the store directly', async () => {
+      const query = manager.query('users').where('id').aboveOrEqual(4);
+      expect(query.toOptions().index).toBeUndefined();
+      expect(names(await query.toArray())).toEqual(['Dana', 'Eve']);
+    });
+
+    test('where() on an unindexed field falls back to a filtered scan', async () => {
+      const result = await manager.query('users').where('name').startsWith('D').toArray();
+      expect(names(result)).toEqual(['Dana']);
+    });
+
+    test('filter, orderBy, reverse and limit compose', async () => {
+      const result = await manager.query('users')
+        .where('age').above(20)
+        .filter(user => user.name !== 'Bob')
+        .orderBy('email')
+        .reverse()
+        .limit(2)
+        .toArray();
+
+      expect(names(result)).toEqual(['Eve', 'Charlie']);
+    });
+
+    test('orderBy without where walks the index', async () => {
+      const query = manager.query('users').orderBy('age').reverse().offset(1).limit(2);
+      expect(query.toOptions()).toMatchObject({ index: 'age', direction: 'prev' });
+      expect(names(await query.toArray())).toEqual(['Bob', 'Charlie']);
+    });
+
+    test('first, count and keys', async () => {
+      const adults = manager.query('users').where('age').aboveOrEqual(21);
+
+      expect(await adults.first()).toMatchObject({ name: 'Alice' });
+      expect(await adults.count()).toBe(4);
+      expect(await adults.filter(user => user.age > 30).count()).toBe(2);
+      expect(await adults.keys()).toEqual([1, 3, 2, 5]);
+    });
+
+    test('modify updates matching records', async () => {
+      const modified = await manager.query('users')
+        .where('age').below(26)
+        .modify({ name: 'Young' });
+      expect(modified).toBe(2);
+
+      const bumped = await manager.query('users')
+        .where('email').equals('eve@example.com')
+        .modify(user => {
+          user.age += 1;
+        });
+      expect(bumped).toBe(1);
+
+      expect(names(await manager.getAll('users'))).toEqual(['Young', 'Bob', 'Charlie', 'Young', 'Eve']);
+      expect(await manager.get('users', 5)).toMatchObject({ age: 43 });
+    });
+
+    test('delete removes matching records', async () => {
+      const deleted = await manager.query('users').where('age').above(30).delete();
+      expect(deleted).toBe(2);
+      expect(names(await manager.getAll('users'))).toEqual(['Alice', 'Charlie', 'Dana']);
+    });
+  });
+});
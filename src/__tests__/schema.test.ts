@@ -0,0 +1,112 @@
+import { IndexedDBManager } from '../core/IndexedDBManager';
+import { SchemaMismatchError } from '../core/errors';
+import { DatabaseConfig } from '../types';
+
+describe('Schema reconciliation', () => {
+  const dbName = 'SchemaTestDB';
+
+  const v1: DatabaseConfig = {
+    name: dbName,
+    version: 1,
+    stores: [
+      {
+        name: 'users',
+        keyPath: 'id',
+        autoIncrement: true,
+        indexes: [
+          { name: 'email', keyPath: 'email' },
+          { name: 'age', keyPath: 'age' }
+        ]
+      }
+    ]
+  };
+
+  const readIndexes = (db: IDBDatabase) => {
+    const store = db.transaction('users').objectStore('users');
+    return Array.from(store.indexNames).map(name => {
+      const index = store.index(name);
+      return { name, keyPath: index.keyPath, unique: index.unique, multiEntry: index.multiEntry };
+    });
+  };
+
+  beforeEach(async () => {
+    const deleteReq = indexedDB.deleteDatabase(dbName);
+    await new Promise((resolve) => {
+      deleteReq.onsuccess = resolve;
+      deleteReq.onerror = resolve;
+    });
+
+    const manager = new IndexedDBManager(v1);
+    await manager.connect();
+    await manager.add('users', { email: 'john@example.com', age: 30, tags: ['a', 'b'] });
+    await manager.disconnect();
+  });
+
+  test('adds, drops and redefines indexes on existing stores during upgrade', async () => {
+    const manager = new IndexedDBManager({
+      ...v1,
+      version: 2,
+      stores: [
+        {
+          name: 'users',
+          keyPath: 'id',
+          autoIncrement: true,
+          indexes: [
+            { name: 'email', keyPath: 'email', unique: true },
+            { name: 'tags', keyPath: 'tags', multiEntry: true }
+          ]
+        }
+      ]
+    });
+
+    const db = await manager.connect();
+    expect(readIndexes(db)).toEqual([
+      { name: 'email', keyPath: 'email', unique: true, multiEntry: false },
+      { name: 'tags', keyPath: 'tags', unique: false, multiEntry: true }
+    ]);
+    expect(await manager.count('users')).toBe(1);
+
+    await manager.disconnect();
+  });
+
+  test('aborts the upgrade when a store keyPath cannot be reconciled', async () => {
+    const manager = new IndexedDBManager({
+      ...v1,
+      version: 2,
+      stores: [{ ...v1.stores[0], keyPath: 'uuid' }]
+    });
+
+    await expect(manager.connect()).rejects.toBeInstanceOf(SchemaMismatchError);
+  });
+
+  test('strict mode refuses to open when the declared shape differs at the same version', async () => {
+    const manager = new IndexedDBManager({
+      ...v1,
+      strict: true,
+      stores: [
+        {
+          ...v1.stores[0],
+          indexes: [{ name: 'email', keyPath: 'email', unique: true }]
+        },
+        { name: 'products', keyPath: 'id' }
+      ]
+    });
+
+    const error = await manager.connect().catch(err => err);
+    expect(error).toBeInstanceOf(SchemaMismatchError);
+    expect(error.differences.map((difference: { type: string }) => difference.type)).toEqual([
+      'missingStore',
+      'indexMismatch',
+      'extraIndex'
+    ]);
+    expect(error.message).toContain('index "users.email" differs from its declaration');
+    expect(manager.isConnected()).toBe(false);
+  });
+
+  test('strict mode opens normally when the schema matches', async () => {
+    const manager = new IndexedDBManager({ ...v1, strict: true });
+    await manager.connect();
+    expect(manager.isConnected()).toBe(true);
+    await manager.disconnect();
+  });
+});
@@ -0,0 +1,257 @@
+import { Component, ReactNode, Suspense, createElement } from 'react';
+import { act, render, waitFor } from '@testing-library/react';
+import { IndexedDBProvider } from '../context/IndexedDBContext';
+import { IndexedDBManager } from '../core/IndexedDBManager';
+import { SuspenseCache, resourceKey } from '../core/suspense';
+import { useSuspenseIndexedDB } from '../hooks/useSuspenseIndexedDB';
+import { useSuspenseLiveQuery } from '../hooks/useSuspenseLiveQuery';
+import { useSuspenseReset } from '../hooks/useSuspenseReset';
+import { DatabaseConfig, Middleware, UseSuspenseIndexedDBReturn } from '../types';
+
+// Reads the way a suspending component does: render, and on a thrown promise wait and render again.
+async function readSettled<R>(read: () => R): Promise<R> {
+  for (;;) {
+    try {
+      return read();
+    } catch (thrown) {
+      if (!(thrown instanceof Promise)) throw thrown;
+      await thrown;
+    }
+  }
+}
+
+describe('Suspense cache', () => {
+  const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  test('throws the pending load, then returns the cached value', async () => {
+    const cache = new SuspenseCache();
+    const load = jest.fn(async () => ['a']);
+
+    let thrown: unknown;
+    try {
+      cache.read('users', ['users'], load);
+    } catch (error) {
+      thrown = error;
+    }
+    expect(thrown).toBeInstanceOf(Promise);
+
+    expect(await readSettled(() => cache.read('users', ['users'], load))).toEqual(['a']);
+    expect(cache.read('users', ['users'], load)).toEqual(['a']);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  test('keeps failures until errors are cleared', async () => {
+    const cache = new SuspenseCache();
+    let fail = true;
+    const load = jest.fn(async () => {
+      if (fail) throw new Error('boom');
+      return 1;
+    });
+
+    await expect(readSettled(() => cache.read('key', ['users'], load))).rejects.toThrow('boom');
+    expect(() => cache.read('key', ['users'], load)).toThrow('boom');
+
+    fail = false;
+    cache.clearErrors();
+    expect(await readSettled(() => cache.read('key', ['users'], load))).toBe(1);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  test('drops unwatched resources and reloads watched ones in the background', async () => {
+    const cache = new SuspenseCache();
+    let value = 1;
+    const load = jest.fn(async () => value);
+    const listener = jest.fn();
+
+    await readSettled(() => cache.read('watched', ['users'], load));
+    await readSettled(() => cache.read('unwatched', ['users'], load));
+    await readSettled(() => cache.read('other', ['notes'], load));
+    cache.subscribe('watched', listener);
+
+    value = 2;
+    cache.invalidate('users');
+    expect(cache.read('watched', ['users'], load)).toBe(1);
+    await flush();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(cache.read('watched', ['users'], load)).toBe(2);
+    expect(cache.read('other', ['notes'], load)).toBe(1);
+    expect(() => cache.read('unwatched', ['users'], load)).toThrow();
+  });
+
+  test('reports resources dropped before the reader subscribed', () => {
+    const listener = jest.fn();
+    new SuspenseCache().subscribe('missing', listener);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test('builds equal keys for equal queries', () => {
+    expect(resourceKey('users', { query: IDBKeyRange.bound(1, [2, 'a']), limit: 5 }))
+      .toBe(resourceKey('users', { query: IDBKeyRange.bound(1, [2, 'a']), limit: 5 }));
+    expect(resourceKey('users', { query: IDBKeyRange.bound(1, 2, true) }))
+      .not.toBe(resourceKey('users', { query: IDBKeyRange.bound(1, 2) }));
+    expect(resourceKey('users', 1)).not.toBe(resourceKey('users', '1'));
+    expect(resourceKey(new Date(5))).toBe(resourceKey(new Date(5)));
+  });
+
+  describe('on a manager', () => {
+    let manager: IndexedDBManager;
+
+    const config: DatabaseConfig = {
+      name: 'SuspenseTestDB',
+      version: 1,
+      stores: [{ name: 'users', keyPath: 'id' }]
+    };
+
+    beforeEach(async () => {
+      const deleteReq = indexedDB.deleteDatabase('SuspenseTestDB');
+      await new Promise((resolve) => {
+        deleteReq.onsuccess = resolve;
+        deleteReq.onerror = resolve;
+      });
+
+      manager = new IndexedDBManager(config);
+      await manager.connect();
+    });
+
+    afterEach(async () => {
+      await manager.disconnect();
+    });
+
+    test('reloads watched reads when their store changes', async () => {
+      const cache = manager.getSuspenseCache();
+      const read = () => cache.read('users', ['users'], () => manager.getAll('users'));
+
+      expect(await readSettled(read)).toEqual([]);
+      // The reload finishes some time after the write, and tells its subscribers when it has.
+      const reloaded = new Promise<void>(resolve => cache.subscribe('users', resolve));
+
+      await manager.put('users', { id: 1 });
+      await reloaded;
+
+      expect(read()).toEqual([{ id: 1 }]);
+    });
+  });
+
+  describe('rendering', () => {
+    interface User {
+      id: number;
+      name: string;
+    }
+
+    // Fails reads while `failing` is set.
+    let failing: boolean;
+    const flaky: Middleware = {
+      name: 'flaky',
+      beforeOperation: async (operation) => {
+        if (failing && operation.type === 'find') {
+          throw new Error('Read failed');
+        }
+      }
+    };
+
+    const config: DatabaseConfig = {
+      name: 'SuspenseRenderTestDB',
+      version: 1,
+      stores: [{ name: 'users', keyPath: 'id', indexes: [{ name: 'name', keyPath: 'name' }] }]
+    };
+
+    class Boundary extends Component<{ children: ReactNode; onReset: () => void }, { error: Error | null }> {
+      state = { error: null as Error | null };
+
+      static getDerivedStateFromError(error: Error) {
+        return { error };
+      }
+
+      reset() {
+        this.props.onReset();
+        this.setState({ error: null });
+      }
+
+      render() {
+        return this.state.error ? `Error: ${this.state.error.message}` : this.props.children;
+      }
+    }
+
+    let boundary: Boundary | null;
+    let handle: UseSuspenseIndexedDBReturn<User> | null;
+
+    function Users() {
+      handle = useSuspenseIndexedDB<User>('users');
+      return handle.data.map(user => user.name).join(',');
+    }
+
+    function Named() {
+      const { data } = useSuspenseLiveQuery<User>({ storeName: 'users', index: 'name', count: 1 });
+      return data.map(user => user.name).join(',');
+    }
+
+    function Retryable({ children }: { children: ReactNode }) {
+      const reset = useSuspenseReset();
+      const ref = (instance: Boundary | null) => {
+        boundary = instance;
+      };
+      return createElement(Boundary, { ref, onReset: reset }, children);
+    }
+
+    const renderApp = (children: ReactNode) => render(createElement(
+      IndexedDBProvider,
+      { config, options: { middleware: [flaky] }, suspense: true, fallback: 'Connecting' },
+      createElement(Retryable, null, createElement(Suspense, { fallback: 'Loading' }, children))
+    ));
+
+    beforeEach(async () => {
+      const deleteReq = indexedDB.deleteDatabase('SuspenseRenderTestDB');
+      await new Promise((resolve) => {
+        deleteReq.onsuccess = resolve;
+        deleteReq.onerror = resolve;
+      });
+
+      const manager = new IndexedDBManager(config);
+      await manager.connect();
+      await manager.bulkPut('users', [{ id: 1, name: 'Cy' }, { id: 2, name: 'Ann' }]);
+      await manager.disconnect();
+
+      failing = false;
+      boundary = null;
+      handle = null;
+    });
+
+    test('shows the provider fallback until the database is open, then the loaded data', async () => {
+      const { container, unmount } = renderApp(createElement(Users));
+      expect(container.textContent).toBe('Connecting');
+
+      await waitFor(() => expect(container.textContent).toBe('Cy,Ann'));
+      unmount();
+    });
+
+    test('keeps showing data while a changed store reloads', async () => {
+      const { container, unmount } = renderApp(
+        [createElement(Users, { key: 'users' }), '|', createElement(Named, { key: 'named' })]
+      );
+      await waitFor(() => expect(container.textContent).toBe('Cy,Ann|Ann'));
+
+      await act(async () => {
+        await handle!.put({ id: 3, name: 'Al' });
+      });
+      expect(container.textContent).not.toContain('Loading');
+      await waitFor(() => expect(container.textContent).toBe('Cy,Ann,Al|Al'));
+      unmount();
+    });
+
+    test('throws failed reads to the error boundary until it resets', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+      failing = true;
+
+      const { container, unmount } = renderApp(createElement(Named));
+      await waitFor(() => expect(container.textContent).toBe('Error: Read failed'));
+
+      failing = false;
+      act(() => boundary!.reset());
+      await waitFor(() => expect(container.textContent).toBe('Ann'));
+
+      unmount();
+      consoleError.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,275 @@
+import { IndexedDBManager } from '../core/IndexedDBManager';
+import { SyncEngine } from '../core/sync';
+import {
+  ConflictStrategy,
+  DatabaseConfig,
+  RemoteChange,
+  SyncMutation,
+  SyncPushOutcome,
+  SyncStatus,
+  SyncTransport
+} from '../types';
+
+interface Todo {
+  id: number;
+  title: string;
+  done?: boolean;
+}
+
+// A minimal server: one revision counter, a change log to pull from, and conflict detection on
+// the revision each mutation was based on.
+class MockServer implements SyncTransport {
+  records: Map<string, RemoteChange> = new Map();
+  log: RemoteChange[] = [];
+  pushed: SyncMutation[][] = [];
+  pullCursors: Array<string | null> = [];
+  private revision = 0;
+
+  write(store: string, key: number, value: unknown, updatedAt = Date.now()): RemoteChange {
+    const change: RemoteChange = value === undefined
+      ? { store, key, deleted: true, revision: ++this.revision, updatedAt }
+      : { store, key, value, revision: ++this.revision, updatedAt };
+    this.records.set(`${store}/${key}`, change);
+    this.log.push(change);
+    return change;
+  }
+
+  push = async (mutations: SyncMutation[]): Promise<SyncPushOutcome[]> => {
+    this.pushed.push(mutations);
+    return mutations.map(mutation => {
+      const current = this.records.get(`${mutation.store}/${mutation.key}`);
+      if (current && current.revision !== mutation.baseRevision) {
+        return { status: 'conflict', remote: current };
+      }
+      const change = this.write(
+        mutation.store,
+        mutation.key as number,
+        mutation.type === 'delete' ? undefined : mutation.value,
+        mutation.timestamp
+      );
+      return { status: 'applied', revision: change.revision };
+    });
+  };
+
+  pull = async ({ cursor }: { cursor: string | null }) => {
+    this.pullCursors.push(cursor);
+    const start = cursor === null ? 0 : Number(cursor);
+    const changes = this.log.slice(start, start + 2);
+    return {
+      changes,
+      cursor: String(start + changes.length),
+      hasMore: start + changes.length < this.log.length
+    };
+  };
+}
+
+describe('Sync engine', () => {
+  let manager: IndexedDBManager;
+  let server: MockServer;
+
+  const config: DatabaseConfig = {
+    name: 'SyncTestDB',
+    version: 1,
+    stores: [
+      { name: 'todos', keyPath: 'id' },
+      { name: 'drafts', keyPath: 'id' }
+    ]
+  };
+
+  const open = async (conflict?: ConflictStrategy) => {
+    await manager?.disconnect();
+    manager = new IndexedDBManager(config, { sync: { transport: server, stores: ['todos'], conflict } });
+    await manager.connect();
+    return manager.getSyncEngine() as SyncEngine;
+  };
+
+  const readOutbox = () => {
+    const db = manager.getDatabase()!;
+    return new Promise<SyncMutation[]>((resolve, reject) => {
+      const request = db.transaction('__sync_outbox').objectStore('__sync_outbox').getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  beforeEach(async () => {
+    const deleteReq = indexedDB.deleteDatabase('SyncTestDB');
+    await new Promise((resolve) => {
+      deleteReq.onsuccess = resolve;
+      deleteReq.onerror = resolve;
+    });
+    server = new MockServer();
+  });
+
+  afterEach(async () => {
+    await manager.disconnect();
+  });
+
+  test('queues local writes in a durable outbox and pushes them', async () => {
+    await open();
+    await manager.put('todos', { id: 1, title: 'Write docs' });
+    await manager.put('todos', { id: 1, title: 'Write better docs' });
+    await manager.bulkPut('todos', [{ id: 2, title: 'Ship' }]);
+    await manager.put('drafts', { id: 1, title: 'Not synced' });
+    await manager.delete('todos', 2);
+
+    const sync = await open();
+    expect((await readOutbox()).map(entry => entry.type)).toEqual(['put', 'put', 'put', 'delete']);
+
+    await sync.sync();
+
+    expect(server.pushed[0].map(({ type, key, baseRevision }) => ({ type, key, baseRevision }))).toEqual([
+      { type: 'put', key: 1, baseRevision: null },
+      { type: 'delete', key: 2, baseRevision: null }
+    ]);
+    expect(server.records.get('todos/1')?.value).toEqual({ id: 1, title: 'Write better docs' });
+    expect(await readOutbox()).toEqual([]);
+    expect(sync.getStatus()).toMatchObject({ state: 'idle', pending: 0, error: null });
+
+    const { revision } = server.records.get('todos/1')!;
+    await manager.put('todos', { id: 1, title: 'Edited again' });
+    await sync.sync();
+    expect(server.pushed[1][0].baseRevision).toBe(revision);
+  });
+
+  test('only records writes that commit', async () => {
+    await open();
+
+    await expect(manager.transaction('todos', 'readwrite', async (tx) => {
+      await tx.store('todos').put({ id: 1, title: 'Rolled back' });
+      throw new Error('cancel');
+    })).rejects.toThrow('cancel');
+
+    expect(await readOutbox()).toEqual([]);
+  });
+
+  test('pulls remote changes page by page without queueing them', async () => {
+    const sync = await open();
+    server.write('todos', 1, { id: 1, title: 'From server' });
+    server.write('todos', 2, { id: 2, title: 'Also from server' });
+    server.write('todos', 3, { id: 3, title: 'Third' });
+    server.write('todos', 2, undefined);
+
+    const received: unknown[] = [];
+    manager.subscribeChanges('todos', changeSet => received.push(...changeSet.changes));
+
+    await sync.sync();
+
+    expect(await manager.getAll('todos')).toEqual([
+      { id: 1, title: 'From server' },
+      { id: 3, title: 'Third' }
+    ]);
+    expect(received).toHaveLength(4);
+    expect(await readOutbox()).toEqual([]);
+    expect(server.pullCursors).toEqual([null, '2']);
+
+    await sync.sync();
+    expect(server.pullCursors).toEqual([null, '2', '4']);
+    expect(server.pushed).toEqual([]);
+  });
+
+  test('resolves conflicts in favour of the server', async () => {
+    const sync = await open('serverWins');
+    server.write('todos', 1, { id: 1, title: 'Server' });
+    await manager.put('todos', { id: 1, title: 'Local' });
+
+    await sync.sync();
+
+    expect(await manager.get('todos', 1)).toEqual({ id: 1, title: 'Server' });
+    expect(server.records.get('todos/1')?.value).toEqual({ id: 1, title: 'Server' });
+    expect(await readOutbox()).toEqual([]);
+  });
+
+  test('keeps the most recent write under last-write-wins', async () => {
+    const sync = await open('lastWriteWins');
+    server.write('todos', 1, { id: 1, title: 'Older server edit' }, Date.now() - 60000);
+    server.write('todos', 2, { id: 2, title: 'Newer server edit' }, Date.now() + 60000);
+    await manager.bulkPut('todos', [{ id: 1, title: 'Local' }, { id: 2, title: 'Local' }]);
+
+    await sync.sync();
+    await sync.sync();
+
+    expect(await manager.getAll('todos')).toEqual([
+      { id: 1, title: 'Local' },
+      { id: 2, title: 'Newer server edit' }
+    ]);
+    expect(server.records.get('todos/1')?.value).toEqual({ id: 1, title: 'Local' });
+    expect(await readOutbox()).toEqual([]);
+  });
+
+  test('stores and pushes the result of a custom merge', async () => {
+    const merge = jest.fn(({ local, remote }) => ({ ...remote.value, done: local.value.done }));
+    const sync = await open(merge);
+    server.write('todos', 1, { id: 1, title: 'Renamed on server', done: false });
+    await manager.put('todos', { id: 1, title: 'Original', done: true });
+
+    await sync.sync();
+    await sync.sync();
+
+    expect(merge).toHaveBeenCalledWith(expect.objectContaining({ store: 'todos', key: 1 }));
+    const merged: Todo = { id: 1, title: 'Renamed on server', done: true };
+    expect(await manager.get('todos', 1)).toEqual(merged);
+    expect(server.records.get('todos/1')?.value).toEqual(merged);
+  });
+
+  test('re-plans a pull when a local write lands during a custom merge', async () => {
+    let wroteDuringMerge = false;
+    const merge = jest.fn(async ({ local, remote }) => {
+      if (!wroteDuringMerge) {
+        wroteDuringMerge = true;
+        await manager.put('todos', { id: 2, title: 'Local', done: true });
+      }
+      return { ...remote.value, done: local.value.done };
+    });
+    const sync = await open(merge);
+    server.write('todos', 1, { id: 1, title: 'Server 1', done: false });
+    server.write('todos', 2, { id: 2, title: 'Server 2', done: false });
+    // The local edit lands after the push, so the pull is the one to find it pending.
+    const pull = server.pull;
+    server.pull = async (request) => {
+      if (request.cursor === null) {
+        await manager.put('todos', { id: 1, title: 'Local', done: true });
+      }
+      return pull(request);
+    };
+
+    await sync.sync();
+
+    expect(merge).toHaveBeenCalledWith(expect.objectContaining({ key: 2 }));
+    expect(await manager.getAll('todos')).toEqual([
+      { id: 1, title: 'Server 1', done: true },
+      { id: 2, title: 'Server 2', done: true }
+    ]);
+
+    await sync.sync();
+    expect(server.records.get('todos/2')?.value).toEqual({ id: 2, title: 'Server 2', done: true });
+  });
+
+  test('reports progress and failures through its status', async () => {
+    const sync = await open();
+    const states: SyncStatus['state'][] = [];
+    sync.onStatusChange(status => states.push(status.state));
+
+    server.pull = async () => {
+      throw new Error('Network down');
+    };
+    await manager.put('todos', { id: 1, title: 'Queued' });
+
+    await expect(sync.sync()).rejects.toThrow('Network down');
+    expect(states).toContain('syncing');
+    expect(sync.getStatus()).toMatchObject({ state: 'error', error: expect.any(Error) });
+  });
+
+  test('refuses to sync encrypted stores', async () => {
+    await open();
+    const encrypted: DatabaseConfig = {
+      ...config,
+      stores: [{ name: 'todos', keyPath: 'id', encryption: { fields: ['title'] } }, { name: 'drafts', keyPath: 'id' }]
+    };
+
+    expect(() => new IndexedDBManager(encrypted, { sync: { transport: server, stores: ['todos'] } }))
+      .toThrow('Encrypted stores cannot be synced: todos');
+    expect(() => new IndexedDBManager(encrypted, { sync: { transport: server, stores: ['drafts'] } }))
+      .not.toThrow();
+  });
+});
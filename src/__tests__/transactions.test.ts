@@ -0,0 +1,282 @@
+import { IndexedDBManager } from '../core/IndexedDBManager';
+import { TransactionError } from '../core/errors';
+import { ChangeSet, DatabaseConfig } from '../types';
+
+describe('Transactions', () => {
+  let manager: IndexedDBManager;
+
+  const config: DatabaseConfig = {
+    name: 'TransactionTestDB',
+    version: 1,
+    stores: [
+      { name: 'orders', keyPath: 'id', autoIncrement: true },
+      {
+        name: 'items',
+        keyPath: 'id',
+        autoIncrement: true,
+        indexes: [{ name: 'sku', keyPath: 'sku', unique: true }]
+      },
+      { name: 'counters' }
+    ]
+  };
+
+  beforeEach(async () => {
+    const deleteReq = indexedDB.deleteDatabase('TransactionTestDB');
+    await new Promise((resolve) => {
+      deleteReq.onsuccess = resolve;
+      deleteReq.onerror = resolve;
+    });
+
+    manager = new IndexedDBManager(config);
+    await manager.connect();
+  });
+
+  afterEach(async () => {
+    await manager.disconnect();
+  });
+
+  describe('multi-store', () => {
+    test('writes to several stores atomically and notifies each once', async () => {
+      const notified: ChangeSet[] = [];
+      manager.subscribeChanges('orders', changeSet => notified.push(changeSet));
+      manager.subscribeChanges('items', changeSet => notified.push(changeSet));
+
+      await manager.executeTransaction({
+        store: ['orders', 'items'],
+        mode: 'readwrite',
+        operations: [
+          { store: 'orders', type: 'add', data: { total: 30 } },
+          { store: 'items', type: 'add', data: { sku: 'a', price: 10 } },
+          { store: 'items', type: 'add', data: { sku: 'b', price: 20 } }
+        ]
+      });
+
+      expect(await manager.count('orders')).toBe(1);
+      expect(await manager.count('items')).toBe(2);
+      expect(notified.map(changeSet => [changeSet.storeName, changeSet.changes.length])).toEqual([
+        ['orders', 1],
+        ['items', 2]
+      ]);
+    });
+
+    test('rolls back every store when one operation fails', async () => {
+      await manager.add('items', { sku: 'a' });
+
+      await expect(manager.executeTransaction({
+        store: ['orders', 'items'],
+        mode: 'readwrite',
+        operations: [
+          { store: 'orders', type: 'add', data: { total: 10 } },
+          { store: 'items', type: 'add', data: { sku: 'a' } }
+        ]
+      })).rejects.toThrow('Transaction failed');
+
+      expect(await manager.count('orders')).toBe(0);
+      expect(await manager.count('items')).toBe(1);
+    });
+
+    test('rolls back every store when a later operation cannot be issued', async () => {
+      const notified: ChangeSet[] = [];
+      manager.subscribeChanges('orders', changeSet => notified.push(changeSet));
+
+      // `counters` has neither a keyPath nor a key generator, so this add throws synchronously.
+      const error: TransactionError = await manager.executeTransaction({
+        store: ['orders', 'counters'],
+        mode: 'readwrite',
+        operations: [
+          { store: 'orders', type: 'add', data: { total: 10 } },
+          { store: 'counters', type: 'add', data: 5 }
+        ]
+      }).catch(err => err);
+
+      expect(error).toBeInstanceOf(TransactionError);
+      expect(error.message).toContain('Transaction failed');
+      expect(await manager.count('orders')).toBe(0);
+      expect(notified).toEqual([]);
+    });
+
+    test('requires operations to name a store in scope', async () => {
+      await expect(manager.executeTransaction({
+        store: ['orders', 'items'],
+        mode: 'readwrite',
+        operations: [{ type: 'add', data: { total: 10 } }]
+      })).rejects.toThrow('must name its store');
+
+      await expect(manager.executeTransaction({
+        store: ['orders'],
+        mode: 'readwrite',
+        operations: [{ store: 'counters', type: 'clear' }]
+      })).rejects.toThrow('Store "counters" is not part of this transaction');
+
+      expect(await manager.count('orders')).toBe(0);
+    });
+  });
+
+  describe('operation results', () => {
+    test('returns one result per operation in queued order', async () => {
+      const results = await manager.executeTransaction<[IDBValidKey, number, undefined, string | undefined]>({
+        store: ['items', 'counters'],
+        mode: 'readwrite',
+        operations: [
+          { store: 'items', type: 'add', data: { sku: 'a' } },
+          { store: 'items', type: 'count' },
+          { store: 'counters', type: 'clear' },
+          { store: 'counters', type: 'get', key: 'missing' }
+        ]
+      });
+
+      expect(results).toEqual([1, 1, undefined, undefined]);
+    });
+
+    test('returns an array even for a single operation', async () => {
+      const results = await manager.executeTransaction({
+        store: 'items',
+        operations: [{ type: 'getAll' }]
+      });
+
+      expect(results).toEqual([[]]);
+    });
+
+    test('reports which operation failed', async () => {
+      await manager.add('items', { sku: 'a' });
+
+      const error: TransactionError = await manager.executeTransaction({
+        store: 'items',
+        mode: 'readwrite',
+        operations: [
+          { type: 'add', data: { sku: 'b' } },
+          { type: 'add', data: { sku: 'a' } },
+          { type: 'add', data: { sku: 'c' } }
+        ]
+      }).catch(err => err);
+
+      expect(error).toBeInstanceOf(TransactionError);
+      expect(error.results.map(result => result.status)).toEqual(['fulfilled', 'rejected', 'rejected']);
+      const failed = error.results[1];
+      expect(failed.status === 'rejected' && failed.reason.name).toBe('ConstraintError');
+      expect(await manager.count('items')).toBe(1);
+    });
+    test('reports an operation that throws before its request is made', async () => {
+      const notified: ChangeSet[] = [];
+      manager.subscribeChanges('items', changeSet => notified.push(changeSet));
+
+      const error: TransactionError = await manager.executeTransaction({
+        store: 'items',
+        mode: 'readwrite',
+        operations: [
+          { type: 'put', data: { id: 1, sku: 'a' } },
+          { type: 'find', options: { index: 'missing' } },
+          { type: 'count' }
+        ]
+      }).catch(err => err);
+
+      expect(error).toBeInstanceOf(TransactionError);
+      expect(error.results.map(result => result.status)).toEqual(['rejected', 'rejected', 'rejected']);
+      const failed = error.results[1];
+      expect(failed.status === 'rejected' && failed.reason.name).toBe('NotFoundError');
+      expect(error.message).toContain(failed.status === 'rejected' ? failed.reason.message : '');
+      expect(await manager.count('items')).toBe(0);
+      expect(notified).toEqual([]);
+    });
+  });
+
+  describe('callback transactions', () => {
+    test('reads and writes within one transaction across awaits', async () => {
+      await manager.put('counters', 1, 'visits');
+
+      const next = await manager.transaction('counters', 'readwrite', async (tx) => {
+        const counters = tx.store<number>('counters');
+        const current = (await counters.get('visits')) ?? 0;
+        await counters.put(current + 1, 'visits');
+        return current + 1;
+      });
+
+      expect(next).toBe(2);
+      expect(await manager.get('counters', 'visits')).toBe(2);
+    });
+
+    test('rejects with the reason passed to abort and rolls back', async () => {
+      const notified = jest.fn();
+      manager.subscribeChanges('orders', notified);
+      const reason = new Error('out of stock');
+
+      await expect(manager.transaction(['orders', 'items'], 'readwrite', async (tx) => {
+        await tx.store('orders').add({ total: 10 });
+        const items = await tx.store('items').count();
+        if (items === 0) {
+          tx.abort(reason);
+        }
+      })).rejects.toBe(reason);
+
+      expect(await manager.count('orders')).toBe(0);
+      expect(notified).not.toHaveBeenCalled();
+    });
+
+    test('rolls back when the callback throws', async () => {
+      await expect(manager.transaction('orders', 'readwrite', async (tx) => {
+        await tx.store('orders').add({ total: 10 });
+        throw new Error('boom');
+      })).rejects.toThrow('boom');
+
+      expect(await manager.count('orders')).toBe(0);
+    });
+
+    test('rolls back when an operation fails even if the callback catches it', async () => {
+      await manager.add('items', { sku: 'a' });
+
+      await expect(manager.transaction(['orders', 'items'], 'readwrite', async (tx) => {
+        await tx.store('orders').add({ total: 10 });
+        await tx.store('items').add({ sku: 'a' }).catch(() => undefined);
+        return 'done';
+      })).rejects.toThrow('Transaction failed');
+
+      expect(await manager.count('orders')).toBe(0);
+      expect(await manager.count('items')).toBe(1);
+    });
+
+    test('rolls back when an operation cannot be issued even if the callback catches it', async () => {
+      await expect(manager.transaction(['orders', 'counters'], 'readwrite', async (tx) => {
+        await tx.store('orders').add({ total: 10 });
+        // `counters` has no key path, so a put without a key fails before reaching the store.
+        await tx.store('counters').put(1).catch(() => undefined);
+        return 'done';
+      })).rejects.toThrow();
+
+      expect(await manager.count('orders')).toBe(0);
+    });
+
+    test('rolls back when middleware rejects an operation even if the callback catches it', async () => {
+      manager.use({
+        beforeOperation: (operation) => {
+          if (operation.type === 'put') throw new Error('rejected');
+        }
+      });
+
+      await expect(manager.transaction(['orders', 'counters'], 'readwrite', async (tx) => {
+        await tx.store('orders').add({ total: 10 });
+        await tx.store('counters').put(1, 'visits').catch(() => undefined);
+        return 'done';
+      })).rejects.toThrow('rejected');
+
+      expect(await manager.count('orders')).toBe(0);
+    });
+
+    test('notifies subscribers after commit', async () => {
+      const notified: ChangeSet[] = [];
+      manager.subscribeChanges('orders', changeSet => notified.push(changeSet));
+
+      await manager.transaction('orders', 'readwrite', async (tx) => {
+        await tx.store('orders').add({ total: 5 });
+        await tx.store('orders').add({ total: 7 });
+      });
+
+      expect(notified).toHaveLength(1);
+      expect(notified[0].changes.map(change => change.type)).toEqual(['add', 'add']);
+    });
+
+    test('only exposes stores in scope', async () => {
+      await expect(manager.transaction('orders', 'readonly', (tx) => tx.store('items')))
+        .rejects.toThrow('Store "items" is not part of this transaction');
+    });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * @jest-environment node
+ */
+import { IndexedDBManager } from '../core/IndexedDBManager';
+import { decodeValue, encodeValue } from '../core/transfer';
+import { ChangeSet, DatabaseConfig, ImportProgress } from '../types';
+
+describe('Export and import', () => {
+  let manager: IndexedDBManager;
+
+  const config: DatabaseConfig = {
+    name: 'TransferTestDB',
+    version: 1,
+    stores: [
+      { name: 'users', keyPath: 'id', indexes: [{ name: 'email', keyPath: 'email', unique: true }] },
+      { name: 'settings' }
+    ]
+  };
+
+  const users = [
+    {
+      id: 1,
+      email: 'ada@example.com',
+      joined: new Date('2024-01-02T03:04:05Z'),
+      tags: new Set(['admin']),
+      prefs: new Map<string, unknown>([['theme', 'dark']]),
+      avatar: new Uint8Array([1, 2, 3])
+    },
+    { id: 2, email: 'bob@example.com', score: NaN, raw: new Uint16Array([500]).buffer, big: BigInt(42) },
+    { id: 3, email: 'cy@example.com', nested: { $t: 'not a tag', deep: [undefined, -0, Infinity] } }
+  ];
+
+  const collect = async (chunks: AsyncIterable<string>) => {
+    let text = '';
+    for await (const chunk of chunks) {
+      text += chunk;
+    }
+    return text;
+  };
+
+  // fake-indexeddb clones records in Node's own realm, so compare them in their encoded form.
+  const expectUsers = async () => {
+    expect(await encodeValue(await manager.getAll('users'))).toEqual(await encodeValue(users));
+  };
+
+  const reset = async () => {
+    await manager?.disconnect();
+    const deleteReq = indexedDB.deleteDatabase('TransferTestDB');
+    await new Promise((resolve) => {
+      deleteReq.onsuccess = resolve;
+      deleteReq.onerror = resolve;
+    });
+    manager = new IndexedDBManager(config);
+    await manager.connect();
+  };
+
+  beforeEach(async () => {
+    await reset();
+    await manager.bulkPut('users', users);
+    await manager.put('settings', { locale: 'en' }, 'general');
+  });
+
+  afterEach(async () => {
+    await manager.disconnect();
+  });
+
+  test('round-trips values JSON cannot represent', async () => {
+    const value = {
+      date: new Date(0),
+      invalid: new Date(NaN),
+      pattern: /a+b/gi,
+      blob: new Blob(['hello'], { type: 'text/plain' }),
+      floats: new Float64Array([1.5, -2]),
+      view: new DataView(new Uint8Array([9, 8]).buffer),
+      missing: undefined
+    };
+
+    const decoded = decodeValue(JSON.parse(JSON.stringify(await encodeValue(value)))) as typeof value;
+
+    expect(decoded.date).toEqual(new Date(0));
+    expect(Number.isNaN(decoded.invalid.getTime())).toBe(true);
+    expect(decoded.pattern).toEqual(/a+b/gi);
+    expect(decoded.blob.type).toBe('text/plain');
+    expect(await decoded.blob.text()).toBe('hello');
+    expect(Array.from(decoded.floats)).toEqual([1.5, -2]);
+    expect(decoded.view.getUint8(1)).toBe(8);
+    expect('missing' in decoded).toBe(true);
+  });
+
+  test('exports NDJSON page by page and restores it into an empty database', async () => {
+    const text = await collect(manager.export({ batchSize: 2 }));
+    const lines = text.trim().split('\n').map(line => JSON.parse(line));
+
+    expect(lines[0]).toMatchObject({
+      type: 'header',
+      format: 'use-indexdb',
+      database: { name: 'TransferTestDB', version: 1 }
+    });
+    expect(lines[0].database.stores.map((store: { count: number }) => store.count)).toEqual([3, 1]);
+    expect(lines.slice(1).map(line => line.store)).toEqual(['users', 'users', 'users', 'settings']);
+
+    await reset();
+    const progress: ImportProgress[] = [];
+    const result = await manager.import(text, { batchSize: 3, onProgress: update => progress.push(update) });
+
+    expect(result.imported).toEqual({ users: 3, settings: 1 });
+    expect(progress).toEqual([{ completed: 3, total: 4 }, { completed: 4, total: 4 }]);
+    await expectUsers();
+    expect(await manager.get('settings', 'general')).toEqual({ locale: 'en' });
+  });
+
+  test('reads JSON documents split across arbitrary chunks', async () => {
+    const text = await collect(manager.export({ format: 'json', stores: ['users'] }));
+    const chunks = text.match(/[\s\S]{1,7}/g)!;
+
+    await reset();
+    await manager.import(chunks);
+
+    await expectUsers();
+    expect(await manager.count('settings')).toBe(0);
+  });
+
+  test('reads a JSON document record by record', async () => {
+    const text = await collect(manager.export({ format: 'json', stores: ['users'] }));
+    const progress: ImportProgress[] = [];
+    let importedBeforeEnd = 0;
+    // Every record is complete before the closing brackets arrive.
+    async function* chunks() {
+      yield* text.slice(0, -3).match(/[\s\S]{1,16}/g)!;
+      importedBeforeEnd = progress.length;
+      yield text.slice(-3);
+    }
+
+    await reset();
+    await manager.import(chunks(), { batchSize: 1, onProgress: update => progress.push(update) });
+
+    expect(importedBeforeEnd).toBe(3);
+    await expectUsers();
+  });
+
+  test('leaves stores untouched when a replace fails before their records', async () => {
+    const text = await collect(manager.export({ stores: ['users', 'settings'] }));
+    const [header, ...records] = text.trim().split('\n');
+    const broken = [header, records[0], '{"type":"record",', ...records.slice(1)].join('\n');
+
+    await expect(manager.import(`${header}\n{"type":"rec`, { mode: 'replace' })).rejects.toThrow('Invalid export');
+    expect(await manager.count('users')).toBe(3);
+
+    // Users are replaced along with their first batch; settings come after the failure.
+    await expect(manager.import(broken, { mode: 'replace', batchSize: 1 })).rejects.toThrow('Invalid export');
+    expect(await manager.count('users')).toBe(1);
+    expect(await manager.get('settings', 'general')).toEqual({ locale: 'en' });
+  });
+
+  test('merges into or replaces existing records and notifies subscribers', async () => {
+    const text = await collect(manager.export({ stores: ['users'] }));
+    await manager.clear('users');
+    await manager.put('users', { id: 9, email: 'zed@example.com' });
+
+    const changeSets: ChangeSet[] = [];
+    manager.subscribeChanges('users', changeSet => changeSets.push(changeSet));
+
+    await manager.import(text, { mode: 'merge' });
+    expect(await manager.count('users')).toBe(4);
+    expect(changeSets[0].changes.map(change => change.type)).toEqual(['add', 'add', 'add']);
+
+    await manager.import(text, { mode: 'replace' });
+    expect((await manager.getAll<{ id: number }>('users')).map(user => user.id)).toEqual([1, 2, 3]);
+    expect(await manager.count('settings')).toBe(1);
+  });
+
+  test('rejects exports for stores this database does not have', async () => {
+    const header = {
+      type: 'header',
+      format: 'use-indexdb',
+      version: 1,
+      database: { name: 'Other', version: 1, stores: [{ name: 'orders', count: 0 }] }
+    };
+
+    await expect(manager.import(JSON.stringify(header))).rejects.toThrow('Stores orders from the export');
+    await expect(manager.import('not json')).rejects.toThrow('Invalid export');
+  });
+});
@@ -0,0 +1,181 @@
+import { createElement, ReactNode } from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { IndexedDBProvider } from '../context/IndexedDBContext';
+import { IndexedDBManager } from '../core/IndexedDBManager';
+import { useIndexedDB } from '../hooks/useIndexedDB';
+import { DatabaseConfig, Middleware } from '../types';
+
+interface User {
+  id: number;
+  name: string;
+  age: number;
+}
+
+describe('useIndexedDB', () => {
+  const config: DatabaseConfig = {
+    name: 'UseIndexedDBTestDB',
+    version: 1,
+    stores: [{ name: 'users', keyPath: 'id', indexes: [{ name: 'age', keyPath: 'age' }] }]
+  };
+
+  const users: User[] = [
+    { id: 1, name: 'Ann', age: 25 },
+    { id: 2, name: 'Bob', age: 35 },
+    { id: 3, name: 'Cy', age: 45 },
+    { id: 4, name: 'Di', age: 55 }
+  ];
+
+  const wrapper = ({ children }: { children: ReactNode }) => createElement(IndexedDBProvider, { config }, children);
+
+  beforeEach(async () => {
+    const deleteReq = indexedDB.deleteDatabase('UseIndexedDBTestDB');
+    await new Promise((resolve) => {
+      deleteReq.onsuccess = resolve;
+      deleteReq.onerror = resolve;
+    });
+
+    const manager = new IndexedDBManager(config);
+    await manager.connect();
+    await manager.bulkPut('users', users);
+    await manager.disconnect();
+  });
+
+  test('leaves the store unread with eager: false', async () => {
+    const { result } = renderHook(() => useIndexedDB<User>('users', { eager: false }), { wrapper });
+
+    // Give the provider time to open the database and the hook time to (not) read.
+    await act(() => new Promise(resolve => setTimeout(resolve, 50)));
+    expect(result.current.loading).toBe(false);
+    expect(result.current.data).toBeNull();
+
+    await act(async () => {
+      await result.current.put({ id: 5, name: 'Eve', age: 30 });
+    });
+    expect(result.current.data).toBeNull();
+    expect(await result.current.count()).toBe(5);
+  });
+
+  test('maps records through select and keeps them up to date', async () => {
+    const { result } = renderHook(() => useIndexedDB<User, string>('users', { select: user => user.name }), { wrapper });
+
+    await waitFor(() => expect(result.current.data).toEqual(['Ann', 'Bob', 'Cy', 'Di']));
+
+    await act(async () => {
+      await result.current.put({ id: 2, name: 'Rob', age: 35 });
+    });
+    expect(result.current.data).toEqual(['Ann', 'Rob', 'Cy', 'Di']);
+  });
+
+  test('reads only the scoped range and reloads it on relevant writes', async () => {
+    let renders = 0;
+    const { result } = renderHook(() => {
+      renders++;
+      // An inline range is a new object on every render.
+      return useIndexedDB<User>('users', { index: 'age', query: IDBKeyRange.lowerBound(30), limit: 2 });
+    }, { wrapper });
+
+    await waitFor(() => expect(result.current.data?.map(user => user.name)).toEqual(['Bob', 'Cy']));
+
+    await act(async () => {
+      await result.current.put({ id: 5, name: 'Eve', age: 31 });
+    });
+    await waitFor(() => expect(result.current.data?.map(user => user.name)).toEqual(['Eve', 'Bob']));
+
+    const settled = renders;
+    await act(() => new Promise(resolve => setTimeout(resolve, 50)));
+    expect(renders).toBe(settled);
+  });
+
+  describe('optimistic mutations', () => {
+    // Holds writes back until released, and rejects records named "Bad".
+    let held: Promise<void> | null;
+    const gate: Middleware = {
+      name: 'gate',
+      beforeOperation: async (operation) => {
+        if (operation.type !== 'put') return;
+        await held;
+        if ((operation.data as User).name === 'Bad') {
+          throw new Error('Rejected by the server');
+        }
+      }
+    };
+
+    const gated = ({ children }: { children: ReactNode }) =>
+      createElement(IndexedDBProvider, { config, options: { middleware: [gate] } }, children);
+
+    const names = (data: User[] | null) => data?.map(user => user.name);
+
+    beforeEach(() => {
+      held = null;
+    });
+
+    test('shows a write before it commits', async () => {
+      let release!: () => void;
+      held = new Promise(resolve => { release = resolve; });
+
+      const { result } = renderHook(() => useIndexedDB<User>('users', { optimistic: true }), { wrapper: gated });
+      await waitFor(() => expect(names(result.current.data)).toEqual(['Ann', 'Bob', 'Cy', 'Di']));
+
+      let write!: Promise<IDBValidKey>;
+      act(() => {
+        write = result.current.put({ id: 2, name: 'Rob', age: 35 });
+      });
+      expect(names(result.current.data)).toEqual(['Ann', 'Rob', 'Cy', 'Di']);
+      expect(result.current.mutations).toEqual([{ id: 1, type: 'put', key: 2, status: 'pending' }]);
+
+      await act(async () => {
+        release();
+        await write;
+      });
+      expect(names(result.current.data)).toEqual(['Ann', 'Rob', 'Cy', 'Di']);
+      expect(result.current.mutations).toEqual([]);
+    });
+
+    test('reverts a rejected write and reports it until cleared', async () => {
+      const { result } = renderHook(() => useIndexedDB<User>('users', { optimistic: true }), { wrapper: gated });
+      await waitFor(() => expect(names(result.current.data)).toEqual(['Ann', 'Bob', 'Cy', 'Di']));
+
+      let write!: Promise<IDBValidKey>;
+      act(() => {
+        write = result.current.put({ id: 2, name: 'Bad', age: 35 });
+      });
+      expect(names(result.current.data)).toEqual(['Ann', 'Bad', 'Cy', 'Di']);
+
+      await act(async () => {
+        await expect(write).rejects.toThrow('Rejected by the server');
+      });
+      expect(names(result.current.data)).toEqual(['Ann', 'Bob', 'Cy', 'Di']);
+      expect(result.current.error?.message).toBe('Rejected by the server');
+      expect(result.current.mutations).toEqual([
+        expect.objectContaining({ type: 'put', key: 2, status: 'failed', error: expect.any(Error) })
+      ]);
+
+      act(() => result.current.clearMutations());
+      expect(result.current.mutations).toEqual([]);
+    });
+  });
+
+  test('retries a failed initial open before reporting an error', async () => {
+    const failingOpen = () => {
+      const request: Partial<IDBOpenDBRequest> = {
+        error: new DOMException('Disk unavailable', 'UnknownError')
+      };
+      setTimeout(() => (request.onerror as () => void)());
+      return request as IDBOpenDBRequest;
+    };
+    const spy = jest.spyOn(indexedDB, 'open').mockImplementationOnce(failingOpen);
+    const onError = jest.fn();
+    const retrying = ({ children }: { children: ReactNode }) =>
+      createElement(IndexedDBProvider, { config, options: { connection: { retryDelay: 1 } }, onError }, children);
+
+    try {
+      const { result } = renderHook(() => useIndexedDB<User>('users'), { wrapper: retrying });
+      await waitFor(() => expect(result.current.data).toHaveLength(4));
+
+      expect(spy).toHaveBeenCalledTimes(2);
+      expect(onError).not.toHaveBeenCalled();
+    } finally {
+      spy.mockRestore();
+    }
+  });
+});
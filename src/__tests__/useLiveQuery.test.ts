@@ -0,0 +1,76 @@
+import { createElement, ReactNode } from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { IndexedDBProvider } from '../context/IndexedDBContext';
+import { IndexedDBManager } from '../core/IndexedDBManager';
+import { useIndexedDB } from '../hooks/useIndexedDB';
+import { useLiveQuery } from '../hooks/useLiveQuery';
+import { DatabaseConfig } from '../types';
+
+interface User {
+  id: number;
+  name: string;
+  age: number;
+}
+
+describe('useLiveQuery', () => {
+  const config: DatabaseConfig = {
+    name: 'UseLiveQueryTestDB',
+    version: 1,
+    stores: [{ name: 'users', keyPath: 'id', indexes: [{ name: 'age', keyPath: 'age' }] }]
+  };
+
+  const wrapper = ({ children }: { children: ReactNode }) => createElement(IndexedDBProvider, { config }, children);
+
+  beforeEach(async () => {
+    const deleteReq = indexedDB.deleteDatabase('UseLiveQueryTestDB');
+    await new Promise((resolve) => {
+      deleteReq.onsuccess = resolve;
+      deleteReq.onerror = resolve;
+    });
+
+    const manager = new IndexedDBManager(config);
+    await manager.connect();
+    await manager.bulkPut('users', [{ id: 1, name: 'Ann', age: 25 }, { id: 2, name: 'Bob', age: 35 }]);
+    await manager.disconnect();
+  });
+
+  test('follows an inline range without reloading on every render', async () => {
+    let renders = 0;
+    const { result } = renderHook(() => {
+      renders++;
+      return {
+        adults: useLiveQuery<User>({ storeName: 'users', index: 'age', query: IDBKeyRange.lowerBound(30) }),
+        users: useIndexedDB<User>('users', { eager: false })
+      };
+    }, { wrapper });
+
+    await waitFor(() => expect(result.current.adults.data.map(user => user.name)).toEqual(['Bob']));
+    const settled = renders;
+    await act(() => new Promise(resolve => setTimeout(resolve, 50)));
+    expect(renders).toBe(settled);
+
+    await act(async () => {
+      await result.current.users.put({ id: 3, name: 'Cy', age: 45 });
+    });
+    await waitFor(() => expect(result.current.adults.data.map(user => user.name)).toEqual(['Bob', 'Cy']));
+  });
+
+  test('runs a querier again when its stores or deps change', async () => {
+    const { result, rerender } = renderHook(({ minAge }: { minAge: number }) => ({
+      count: useLiveQuery(async ({ query }) => (
+        await query<User>('users').filter(user => user.age >= minAge).toArray()
+      ).length, [minAge]),
+      users: useIndexedDB<User>('users', { eager: false })
+    }), { wrapper, initialProps: { minAge: 30 } });
+
+    await waitFor(() => expect(result.current.count.data).toBe(1));
+
+    rerender({ minAge: 20 });
+    await waitFor(() => expect(result.current.count.data).toBe(2));
+
+    await act(async () => {
+      await result.current.users.put({ id: 3, name: 'Cy', age: 45 });
+    });
+    await waitFor(() => expect(result.current.count.data).toBe(3));
+  });
+});
@@ -0,0 +1,97 @@
+import { createElement, ReactNode } from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { webcrypto } from 'crypto';
+import { TextDecoder, TextEncoder } from 'util';
+import { deserialize, serialize } from 'v8';
+import { IndexedDBProvider } from '../context/IndexedDBContext';
+import { IndexedDBManager } from '../core/IndexedDBManager';
+import { useRecord } from '../hooks/useRecord';
+import { DatabaseConfig, EncryptionKeys } from '../types';
+
+// jsdom has neither Web Crypto nor TextEncoder, which the encrypted store needs, and the JSON
+// structuredClone from setupTests would drop its binary payloads.
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+globalThis.structuredClone = <T>(value: T): T => deserialize(serialize(value));
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+
+interface User {
+  id: number;
+  name: string;
+}
+
+describe('useRecord', () => {
+  let keys: EncryptionKeys;
+
+  const config: DatabaseConfig = {
+    name: 'UseRecordTestDB',
+    version: 1,
+    stores: [
+      { name: 'users', keyPath: 'id' },
+      { name: 'secrets', keyPath: 'id', encryption: { fields: ['name'] } }
+    ]
+  };
+
+  const wrapper = ({ children }: { children: ReactNode }) =>
+    createElement(IndexedDBProvider, { config, options: { encryption: keys } }, children);
+
+  beforeEach(async () => {
+    const deleteReq = indexedDB.deleteDatabase('UseRecordTestDB');
+    await new Promise((resolve) => {
+      deleteReq.onsuccess = resolve;
+      deleteReq.onerror = resolve;
+    });
+
+    keys = {
+      key: await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+    };
+    const manager = new IndexedDBManager(config, { encryption: keys });
+    await manager.connect();
+    await manager.put('users', { id: 1, name: 'Ann' });
+    await manager.put('secrets', { id: 1, name: 'Ann' });
+    await manager.disconnect();
+  });
+
+  test('does not report an existing record as missing while the database connects', async () => {
+    const renders: Array<{ loading: boolean; notFound: boolean }> = [];
+    const { result } = renderHook(() => {
+      const record = useRecord<User>('users', 1);
+      renders.push({ loading: record.loading, notFound: record.notFound });
+      return record;
+    }, { wrapper });
+
+    await waitFor(() => expect(result.current.data).toEqual({ id: 1, name: 'Ann' }));
+    expect(renders.some(render => render.notFound)).toBe(false);
+    expect(renders[0].loading).toBe(true);
+  });
+
+  test('treats a key that is not a valid key as no record', async () => {
+    const { result, rerender } = renderHook(
+      ({ id }: { id: number | undefined }) => useRecord<User>('users', id as number),
+      { wrapper, initialProps: { id: undefined } }
+    );
+
+    await waitFor(() => expect(result.current.notFound).toBe(true));
+    expect(result.current.error).toBeNull();
+    await act(async () => {
+      await result.current.remove();
+      await expect(result.current.update({ name: 'Bo' })).rejects.toThrow('not found');
+    });
+
+    rerender({ id: 1 });
+    await waitFor(() => expect(result.current.data).toEqual({ id: 1, name: 'Ann' }));
+  });
+
+  test('updates records in encrypted stores', async () => {
+    const { result } = renderHook(() => useRecord<User>('secrets', 1), { wrapper });
+    await waitFor(() => expect(result.current.data).toEqual({ id: 1, name: 'Ann' }));
+
+    await act(() => result.current.update(user => ({ ...user, name: 'Bo' })));
+    await waitFor(() => expect(result.current.data).toEqual({ id: 1, name: 'Bo' }));
+    expect(result.current.error).toBeNull();
+
+    const manager = new IndexedDBManager(config, { encryption: keys });
+    await manager.connect();
+    expect(await manager.get('secrets', 1)).toEqual({ id: 1, name: 'Bo' });
+    await manager.disconnect();
+  });
+});
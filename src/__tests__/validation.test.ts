@@ -0,0 +1,178 @@
+import { IndexedDBManager } from '../core/IndexedDBManager';
+import { BulkError, ValidationError } from '../core/errors';
+import { validateRecord } from '../core/validation';
+import { DatabaseConfig, QuarantinedRecord, StandardSchemaV1 } from '../types';
+
+interface User {
+  id: number;
+  email: string;
+}
+
+const emailSchema: StandardSchemaV1<User> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) => {
+      const email = (value as User).email;
+      return typeof email === 'string' && email.includes('@')
+        ? { value: value as User }
+        : { issues: [{ message: 'Expected an email address', path: [{ key: 'email' }] }] };
+    }
+  }
+};
+
+describe('Record validation', () => {
+  let manager: IndexedDBManager;
+  let quarantined: QuarantinedRecord[];
+
+  const config: DatabaseConfig = {
+    name: 'ValidationTestDB',
+    version: 1,
+    stores: [
+      { name: 'users', keyPath: 'id', validator: emailSchema, validateOnRead: true },
+      {
+        name: 'notes',
+        keyPath: 'id',
+        validator: (note: { text?: unknown }) => typeof note.text === 'string' || 'Text is required'
+      },
+      { name: 'raw', keyPath: 'id' }
+    ]
+  };
+
+  beforeEach(async () => {
+    const deleteReq = indexedDB.deleteDatabase('ValidationTestDB');
+    await new Promise((resolve) => {
+      deleteReq.onsuccess = resolve;
+      deleteReq.onerror = resolve;
+    });
+
+    quarantined = [];
+    manager = new IndexedDBManager(config, {
+      onQuarantine: record => quarantined.push(record)
+    });
+    await manager.connect();
+  });
+
+  afterEach(async () => {
+    await manager.disconnect();
+  });
+
+  // Writes a record behind the validator's back, as an old client build would have.
+  const writeUnchecked = async (storeName: string, value: object) => {
+    const db = manager.getDatabase()!;
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(storeName, 'readwrite');
+      tx.objectStore(storeName).put(value);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  };
+
+  test('normalizes function and standard schema results', () => {
+    expect(validateRecord(() => true, {})).toEqual([]);
+    expect(validateRecord(() => undefined, {})).toEqual([]);
+    expect(validateRecord(() => false, {})).toEqual([{ message: 'Record failed validation', path: [] }]);
+    expect(validateRecord(() => 'Nope', {})).toEqual([{ message: 'Nope', path: [] }]);
+    expect(validateRecord(emailSchema, { id: 1, email: 'bad' })).toEqual([
+      { message: 'Expected an email address', path: ['email'] }
+    ]);
+  });
+
+  test('rejects invalid add and put with a ValidationError', async () => {
+    const error = await manager.add('users', { id: 1, email: 'not-an-email' }).catch(err => err);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.storeName).toBe('users');
+    expect(error.path).toEqual(['email']);
+    expect(error.message).toBe('Invalid record for store "users": email: Expected an email address');
+
+    await expect(manager.put('notes', { id: 1 })).rejects.toThrow('Text is required');
+    expect(await manager.count('users')).toBe(0);
+    expect(await manager.count('notes')).toBe(0);
+  });
+
+  test('rejects the whole transaction when any write is invalid', async () => {
+    await expect(manager.executeTransaction({
+      store: ['users', 'notes'],
+      mode: 'readwrite',
+      operations: [
+        { store: 'notes', type: 'add', data: { id: 1, text: 'ok' } },
+        { store: 'users', type: 'add', data: { id: 1, email: 'bad' } }
+      ]
+    })).rejects.toBeInstanceOf(ValidationError);
+
+    expect(await manager.count('notes')).toBe(0);
+  });
+
+  test('validates writes inside transaction callbacks', async () => {
+    await expect(manager.transaction(['users', 'notes'], 'readwrite', async (tx) => {
+      await tx.store('notes').add({ id: 1, text: 'ok' });
+      await tx.store('users').put({ id: 1, email: 'bad' });
+    })).rejects.toBeInstanceOf(ValidationError);
+
+    expect(await manager.count('notes')).toBe(0);
+  });
+
+  test('validates every record rewritten by modify', async () => {
+    await manager.bulkPut('users', [{ id: 1, email: 'a@example.com' }, { id: 2, email: 'b@example.com' }]);
+
+    await expect(manager.query('users').where('id').equals(1).modify({ email: 5 }))
+      .rejects.toBeInstanceOf(ValidationError);
+    await expect(manager.query('users').modify(user => {
+      if (user.id === 2) user.email = 'bad';
+    })).rejects.toBeInstanceOf(ValidationError);
+
+    expect(await manager.getAll('users')).toEqual([
+      { id: 1, email: 'a@example.com' },
+      { id: 2, email: 'b@example.com' }
+    ]);
+    expect(await manager.query('users').modify({ email: 'c@example.com' })).toBe(2);
+  });
+
+  test('reports invalid bulk records as failures', async () => {
+    const records = [
+      { id: 1, email: 'a@example.com' },
+      { id: 2, email: 'bad' },
+      { id: 3, email: 'c@example.com' }
+    ];
+
+    const { results, failures } = await manager.bulkAdd('users', records, { continueOnError: true });
+    expect(results).toEqual([1, undefined, 3]);
+    expect(failures).toHaveLength(1);
+    expect(failures[0].index).toBe(1);
+    expect(failures[0].error).toBeInstanceOf(ValidationError);
+
+    await manager.clear('users');
+    const error = await manager.bulkPut('users', records, { chunkSize: 1 }).catch(err => err);
+    expect(error).toBeInstanceOf(BulkError);
+    expect(error.committed).toBe(1);
+    expect(await manager.count('users')).toBe(1);
+  });
+
+  test('quarantines invalid records on read', async () => {
+    await manager.add('users', { id: 1, email: 'a@example.com' });
+    await writeUnchecked('users', { id: 2, email: 'corrupt' });
+
+    expect(await manager.getAll('users')).toEqual([{ id: 1, email: 'a@example.com' }]);
+    expect(await manager.get('users', 2)).toBeUndefined();
+    expect(await manager.query('users').toArray()).toHaveLength(1);
+
+    expect(quarantined).toHaveLength(3);
+    expect(manager.getQuarantined()).toEqual([{
+      storeName: 'users',
+      key: 2,
+      value: { id: 2, email: 'corrupt' },
+      issues: [{ message: 'Expected an email address', path: ['email'] }]
+    }]);
+
+    manager.clearQuarantine('users');
+    expect(manager.getQuarantined()).toEqual([]);
+  });
+
+  test('returns invalid records when validateOnRead is off', async () => {
+    await writeUnchecked('notes', { id: 1 });
+
+    expect(await manager.getAll('notes')).toEqual([{ id: 1 }]);
+    expect(quarantined).toEqual([]);
+  });
+});
@@ -0,0 +1,138 @@
+import { IndexedDBManager } from '../core/IndexedDBManager';
+import { defineView } from '../core/views';
+import { DatabaseConfig } from '../types';
+
+describe('Derived views', () => {
+  let manager: IndexedDBManager;
+
+  const computeTotal = jest.fn((sources: Record<string, Array<{ price: number; quantity: number }>>) =>
+    sources.cartItems.reduce((total, item) => total + item.price * item.quantity, 0)
+  );
+  const cartTotal = defineView('cartTotal', ['cartItems'], computeTotal);
+
+  const countByCategory = jest.fn((sources: Record<string, Array<{ category: string }>>) => {
+    const counts: Record<string, number> = {};
+    sources.products.forEach(product => {
+      counts[product.category] = (counts[product.category] ?? 0) + 1;
+    });
+    return counts;
+  });
+  const categoryCounts = defineView('categoryCounts', ['products'], countByCategory, { persist: true });
+
+  const config: DatabaseConfig = {
+    name: 'ViewsTestDB',
+    version: 1,
+    stores: [
+      { name: 'cartItems', keyPath: 'id' },
+      { name: 'products', keyPath: 'id' },
+      { name: 'notes', keyPath: 'id' }
+    ],
+    views: [categoryCounts]
+  };
+
+  const open = async () => {
+    await manager?.disconnect();
+    manager = new IndexedDBManager(config);
+    await manager.connect();
+  };
+
+  beforeEach(async () => {
+    const deleteReq = indexedDB.deleteDatabase('ViewsTestDB');
+    await new Promise((resolve) => {
+      deleteReq.onsuccess = resolve;
+      deleteReq.onerror = resolve;
+    });
+    computeTotal.mockClear();
+    countByCategory.mockClear();
+    await open();
+  });
+
+  afterEach(async () => {
+    await manager.disconnect();
+  });
+
+  test('memoizes a view until one of its sources changes', async () => {
+    await manager.bulkPut('cartItems', [
+      { id: 1, price: 5, quantity: 2 },
+      { id: 2, price: 3, quantity: 1 }
+    ]);
+
+    expect(await manager.getView(cartTotal)).toBe(13);
+    expect(await manager.getView(cartTotal)).toBe(13);
+    expect(computeTotal).toHaveBeenCalledTimes(1);
+
+    await manager.put('notes', { id: 1 });
+    expect(await manager.getView(cartTotal)).toBe(13);
+    expect(computeTotal).toHaveBeenCalledTimes(1);
+
+    await manager.put('cartItems', { id: 2, price: 3, quantity: 4 });
+    expect(await manager.getView(cartTotal)).toBe(22);
+    expect(computeTotal).toHaveBeenCalledTimes(2);
+  });
+
+  test('shares results between definitions with the same name', async () => {
+    await manager.put('cartItems', { id: 1, price: 5, quantity: 2 });
+
+    expect(await manager.getView(defineView('cartTotal', ['cartItems'], computeTotal))).toBe(10);
+    expect(await manager.getView(defineView('cartTotal', ['cartItems'], computeTotal))).toBe(10);
+    expect(computeTotal).toHaveBeenCalledTimes(1);
+
+    await manager.put('cartItems', { id: 1, price: 5, quantity: 3 });
+    expect(await manager.getView(cartTotal)).toBe(15);
+    expect(computeTotal).toHaveBeenCalledTimes(2);
+  });
+
+  test('reads every source store from one snapshot', async () => {
+    const summary = defineView('summary', ['cartItems', 'products'], sources => ({
+      items: sources.cartItems.length,
+      products: sources.products.length
+    }));
+    await manager.put('cartItems', { id: 1, price: 1, quantity: 1 });
+
+    expect(await manager.getView(summary)).toEqual({ items: 1, products: 0 });
+
+    await manager.put('products', { id: 1, category: 'tools' });
+    expect(await manager.getView(summary)).toEqual({ items: 1, products: 1 });
+  });
+
+  test('persists results across sessions and drops them when sources change', async () => {
+    await manager.bulkPut('products', [
+      { id: 1, category: 'tools' },
+      { id: 2, category: 'garden' },
+      { id: 3, category: 'tools' }
+    ]);
+    expect(await manager.getView(categoryCounts)).toEqual({ tools: 2, garden: 1 });
+
+    await open();
+    expect(await manager.getView(categoryCounts)).toEqual({ tools: 2, garden: 1 });
+    expect(countByCategory).toHaveBeenCalledTimes(1);
+
+    // Another session writes while this one holds no cached result.
+    await manager.disconnect();
+    const other = new IndexedDBManager(config);
+    await other.delete('products', 2);
+    await other.disconnect();
+
+    await open();
+    expect(await manager.getView(categoryCounts)).toEqual({ tools: 2 });
+    expect(countByCategory).toHaveBeenCalledTimes(2);
+  });
+
+  test('requires persisted views to be listed in the config', async () => {
+    const unlisted = defineView('unlisted', ['products'], sources => sources.products.length, { persist: true });
+
+    await expect(manager.getView(unlisted)).rejects.toThrow('not listed in the database config');
+  });
+
+  test('recomputes after a failed computation', async () => {
+    let fail = true;
+    const flaky = defineView('flaky', ['notes'], sources => {
+      if (fail) throw new Error('boom');
+      return sources.notes.length;
+    });
+
+    await expect(manager.getView(flaky)).rejects.toThrow('boom');
+    fail = false;
+    expect(await manager.getView(flaky)).toBe(0);
+  });
+});
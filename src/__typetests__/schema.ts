@@ -0,0 +1,121 @@
+// Compile-time checks for typed schemas, run by `pnpm typecheck` through tsconfig.typetests.json.
+// Every `@ts-expect-error` fails the check if the line below it stops being an error, so the
+// schema generics cannot silently widen to `any`.
+import {
+  DatabaseConfig,
+  IndexedDBManager,
+  useIndexedDB,
+  useLiveQuery,
+  useQuery,
+  useRecord,
+  useTransaction
+} from '../index';
+
+interface User {
+  id: number;
+  name: string;
+  age: number;
+}
+
+interface Order {
+  id: string;
+  userId: number;
+}
+
+interface AppSchema {
+  users: { value: User; key: number; indexes: 'age' };
+  orders: { value: Order; key: string; indexes: 'userId' };
+}
+
+declare module '../types' {
+  interface Register {
+    schema: AppSchema;
+  }
+}
+
+type Equal<A, B> = (<X>() => X extends A ? 1 : 2) extends (<X>() => X extends B ? 1 : 2) ? true : false;
+
+function expectType<A>() {
+  return <B>(value: B, exact: Equal<A, B>) => [value, exact];
+}
+
+const config: DatabaseConfig<AppSchema> = {
+  name: 'TypeTests',
+  version: 1,
+  stores: [
+    { name: 'users', keyPath: 'id', indexes: [{ name: 'age', keyPath: 'age' }] },
+    { name: 'orders', keyPath: 'id', indexes: [{ name: 'userId', keyPath: 'userId' }] }
+  ]
+};
+
+export const unknownStoreConfig: DatabaseConfig<AppSchema> = {
+  name: 'TypeTests',
+  version: 1,
+  // @ts-expect-error stores must be declared in the schema
+  stores: [{ name: 'nope' }]
+};
+
+export const unknownIndexConfig: DatabaseConfig<AppSchema> = {
+  name: 'TypeTests',
+  version: 1,
+  // @ts-expect-error indexes must be declared for their store
+  stores: [{ name: 'users', indexes: [{ name: 'email', keyPath: 'email' }] }]
+};
+
+const manager = new IndexedDBManager<AppSchema>(config);
+
+export async function managerChecks() {
+  expectType<User | undefined>()(await manager.get('users', 1), true);
+  expectType<Order[]>()(await manager.getAll('orders'), true);
+  expectType<User[]>()(await manager.query('users').where('age').above(18).toArray(), true);
+
+  // @ts-expect-error unknown store
+  await manager.get('nope', 1);
+  // @ts-expect-error orders are keyed by string
+  await manager.get('orders', 1);
+  // @ts-expect-error records must match the store's value type
+  await manager.put('users', { id: 1, name: 'Ann' });
+  // @ts-expect-error unknown index or field
+  manager.query('users').where('email');
+  // @ts-expect-error unknown index
+  await manager.find('orders', { index: 'age' });
+
+  const untyped = new IndexedDBManager({ name: 'Untyped', version: 1, stores: [{ name: 'notes' }] });
+  expectType<unknown>()(await untyped.get('notes', 1), true);
+  expectType<User | undefined>()(await untyped.get<User>('notes', 1), true);
+}
+
+export function HookChecks() {
+  const users = useIndexedDB('users');
+  expectType<User | User[] | null>()(users.data, true);
+  expectType<(value: User, key?: number) => Promise<number>>()(users.add, true);
+
+  const names = useIndexedDB('users', { select: user => user.name });
+  expectType<string | string[] | null>()(names.data, true);
+
+  const adults = useQuery('users', query => query.where('age').above(18));
+  expectType<User[]>()(adults.data, true);
+
+  const orders = useLiveQuery({ storeName: 'orders', index: 'userId' });
+  expectType<Order[]>()(orders.data, true);
+
+  const order = useRecord('orders', 'o-1');
+  expectType<Order | undefined>()(order.data, true);
+
+  useTransaction(['users', 'orders']);
+
+  // @ts-expect-error unknown store
+  useIndexedDB('nope');
+  // @ts-expect-error records must match the store's value type
+  users.add({ name: 'Ann' });
+  // @ts-expect-error unknown index
+  useIndexedDB('users', { index: 'userId' });
+  // @ts-expect-error unknown index
+  useLiveQuery({ storeName: 'orders', index: 'age' });
+  // @ts-expect-error orders are keyed by string
+  useRecord('orders', 1);
+  // @ts-expect-error unknown store
+  useTransaction(['users', 'nope']);
+
+  return null;
+}
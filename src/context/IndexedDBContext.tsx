@@ -1,56 +1,132 @@
-import React, { createContext, useEffect, useState, ReactNode } from 'react';
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  ReactNode,
+  Suspense
+} from 'react';
 import { IndexedDBManager } from '../core/IndexedDBManager';
+import { ConnectionError } from '../core/errors';
+import { QueryBuilder } from '../core/QueryBuilder';
 import { 
   DatabaseConfig, 
   IndexedDBContextValue, 
   IndexedDBState,
   Transaction,
+  TransactionCallback,
+  Operation,
+  BulkOptions,
+  BulkResult,
+  ManagerOptions,
+  RegisteredSchema,
   SubscriptionCallback,
-  Subscription
+  ChangeCallback,
+  RecordCallback,
+  Subscription,
+  ViewDefinition
 } from '../types';
 
 export const IndexedDBContext = createContext<IndexedDBContextValue | null>(null);
 
 export interface IndexedDBProviderProps {
   children: ReactNode;
-  config: DatabaseConfig;
+  config: DatabaseConfig<RegisteredSchema>;
+  options?: ManagerOptions;
   onError?: (error: Error) => void;
   onSuccess?: (db: IDBDatabase) => void;
+  onBlocked?: (event: IDBVersionChangeEvent) => void;
+  onVersionChange?: (event: IDBVersionChangeEvent) => void;
+  // Suspend children until the database is open, showing `fallback` meanwhile.
+  suspense?: boolean;
+  fallback?: ReactNode;
+}
+
+interface ConnectionGateProps {
+  children: ReactNode;
+  waitForConnection: () => Promise<void>;
+}
+
+// The provider and hooks work on store configs generically, whatever schema the app registered.
+function untyped(config: DatabaseConfig<RegisteredSchema>): DatabaseConfig {
+  return config as unknown as DatabaseConfig;
+}
+
+// Connection failures go to the nearest error boundary above the provider.
+function ConnectionGate({ children, waitForConnection }: ConnectionGateProps) {
+  const context = useContext(IndexedDBContext)!;
+
+  if (!context.db) {
+    throw context.state.error ?? waitForConnection();
+  }
+  return <>{children}</>;
 }
 
 export function IndexedDBProvider({ 
   children, 
   config, 
+  options,
   onError,
-  onSuccess 
+  onSuccess,
+  onBlocked,
+  onVersionChange,
+  suspense = false,
+  fallback = null
 }: IndexedDBProviderProps) {
-  const [manager] = useState(() => new IndexedDBManager(config));
+  const [manager] = useState(() => new IndexedDBManager(untyped(config), options));
   const [state, setState] = useState<IndexedDBState>({
     isLoading: true,
     error: null,
-    isConnected: false
+    isConnected: false,
+    status: manager.getStatus()
   });
   const [db, setDb] = useState<IDBDatabase | null>(null);
+  // Callbacks are read when they fire, so the connection effect does not restart when they change.
+  const callbacksRef = useRef({ onError, onSuccess, onBlocked, onVersionChange });
+  const connectionWaitRef = useRef<{ promise: Promise<void>; resolve: () => void } | null>(null);
+  callbacksRef.current = { onError, onSuccess, onBlocked, onVersionChange };
 
   useEffect(() => {
     let mounted = true;
 
+    // Reconnections after another tab's upgrade happen outside initializeDatabase, so the
+    // connection and db handle are driven by status changes.
+    const statusSubscription = manager.onStatusChange((status, event) => {
+      if (!mounted) return;
+
+      const isConnected = status === 'open';
+      setDb(isConnected ? manager.getDatabase() : null);
+      setState(prev => ({
+        ...prev,
+        status,
+        isConnected,
+        isLoading: status === 'connecting' || status === 'upgrading' || status === 'reconnecting',
+        error: isConnected ? null : prev.error
+      }));
+
+      if (status === 'blocked' && event) {
+        callbacksRef.current.onBlocked?.(event);
+      } else if (status === 'closedByOtherTab' && event) {
+        callbacksRef.current.onVersionChange?.(event);
+      }
+    });
+
     const initializeDatabase = async () => {
       try {
-        setState({ isLoading: true, error: null, isConnected: false });
-        
-        const database = await manager.connect();
+        // Retried like any operation, so onError only hears about a database that cannot be opened.
+        const database = await manager.ready();
         
         if (mounted) {
-          setDb(database);
-          setState({ isLoading: false, error: null, isConnected: true });
-          onSuccess?.(database);
+          manager.getSyncEngine()?.start();
+          callbacksRef.current.onSuccess?.(database);
         }
       } catch (error) {
         if (mounted) {
           const err = error as Error;
-          setState({ isLoading: false, error: err, isConnected: false });
-          onError?.(err);
+          setState(prev => ({ ...prev, isLoading: false, error: err, isConnected: false }));
+          callbacksRef.current.onError?.(err);
         }
       }
     };
@@ -59,34 +135,123 @@ export function IndexedDBProvider({
 
     return () => {
       mounted = false;
+      statusSubscription.unsubscribe();
       manager.disconnect();
     };
-  }, [config.name, config.version]);
+  }, [manager]);
 
-  const executeTransaction = async <T = any>(transaction: Transaction): Promise<T> => {
-    if (!manager.isConnected()) {
-      throw new Error('Database not connected');
+  // A suspended gate retries once the provider has connected or failed to.
+  useEffect(() => {
+    if (db || state.error) {
+      connectionWaitRef.current?.resolve();
+      connectionWaitRef.current = null;
     }
-    return manager.executeTransaction<T>(transaction);
-  };
+  }, [db, state.error]);
 
-  const subscribe = <T = any>(
+  const waitForConnection = useCallback((): Promise<void> => {
+    if (!connectionWaitRef.current) {
+      let resolve: () => void = () => {};
+      const promise = new Promise<void>(done => {
+        resolve = done;
+      });
+      connectionWaitRef.current = { promise, resolve };
+    }
+    return connectionWaitRef.current.promise;
+  }, []);
+
+  // Operations wait for the connection inside the manager; failing to get one is unrecoverable
+  // for the caller, so it is also reported on the provider.
+  const reportConnectionError = useCallback((error: unknown): never => {
+    if (error instanceof ConnectionError) {
+      setState(prev => ({ ...prev, error }));
+      callbacksRef.current.onError?.(error);
+    }
+    throw error;
+  }, []);
+
+  const executeTransaction = useCallback(<T extends unknown[] = unknown[]>(
+    transaction: Transaction
+  ): Promise<T> => {
+    return manager.executeTransaction<T>(transaction).catch(reportConnectionError);
+  }, [manager, reportConnectionError]);
+
+  const executeBulk = useCallback(<R = unknown>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operations: Operation[],
+    options?: BulkOptions
+  ): Promise<BulkResult<R>> => {
+    return manager.executeBulk<R>(storeName, mode, operations, options).catch(reportConnectionError);
+  }, [manager, reportConnectionError]);
+
+  const transaction = useCallback(<R,>(
+    storeNames: string | string[],
+    mode: IDBTransactionMode,
+    callback: TransactionCallback<R>
+  ): Promise<R> => {
+    return manager.transaction<R>(storeNames, mode, callback).catch(reportConnectionError);
+  }, [manager, reportConnectionError]);
+
+  const subscribe = useCallback(<T = any>(
     storeName: string, 
     callback: SubscriptionCallback<T>
   ): Subscription => {
-    return manager.subscribe<T>(storeName, callback);
-  };
+    return manager.subscribe(storeName, callback as SubscriptionCallback<unknown>);
+  }, [manager]);
+
+  const subscribeChanges = useCallback(<T = unknown>(
+    storeName: string,
+    callback: ChangeCallback<T>
+  ): Subscription => {
+    return manager.subscribeChanges(storeName, callback as ChangeCallback);
+  }, [manager]);
+
+  const subscribeRecord = useCallback(<T = unknown>(
+    storeName: string,
+    key: IDBValidKey,
+    callback: RecordCallback<T>
+  ): Subscription => {
+    return manager.subscribeRecord(storeName, key, callback as RecordCallback);
+  }, [manager]);
+
+  const query = useCallback(<T = unknown>(storeName: string): QueryBuilder<T> => {
+    return manager.query(storeName) as QueryBuilder<T>;
+  }, [manager]);
+
+  const trackStores = useCallback(<R,>(querier: () => Promise<R>) => {
+    return manager.trackStores<R>(querier);
+  }, [manager]);
+
+  const getView = useCallback(<R,>(view: ViewDefinition<R>): Promise<R> => {
+    return manager.getView<R>(view).catch(reportConnectionError);
+  }, [manager, reportConnectionError]);
 
   const contextValue: IndexedDBContextValue = {
     db,
+    config: untyped(config),
     state,
     executeTransaction,
-    subscribe
+    executeBulk,
+    transaction,
+    subscribe,
+    subscribeChanges,
+    subscribeRecord,
+    query,
+    trackStores,
+    sync: manager.getSyncEngine(),
+    getView,
+    suspenseCache: manager.getSuspenseCache()
   };
 
   return (
     <IndexedDBContext.Provider value={contextValue}>
-      {children}
+      {suspense ? (
+        // The boundary sits inside the provider: suspending the provider itself on its first
+        // render would discard its manager and start over.
+        <Suspense fallback={fallback}>
+          <ConnectionGate waitForConnection={waitForConnection}>{children}</ConnectionGate>
+        </Suspense>
+      ) : children}
     </IndexedDBContext.Provider>
   );
 }
\ No newline at end of file
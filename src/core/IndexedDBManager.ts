@@ -1,18 +1,102 @@
 import { 
   DatabaseConfig, 
   Transaction, 
+  Operation,
+  QueryOptions,
+  StoreConfig,
   SubscriptionCallback,
-  Subscription 
+  ChangeCallback,
+  RecordCallback,
+  ChangeSet,
+  Subscription,
+  OperationResult,
+  BulkOptions,
+  BulkResult,
+  ChangeChannel,
+  ManagerOptions,
+  ConnectionStatus,
+  StatusListener,
+  TransactionCallback,
+  UntypedSchema,
+  StoreName,
+  StoreKey,
+  StoreIndexName,
+  NoInferValue,
+  ResolvedValue,
+  QuarantinedRecord,
+  Middleware,
+  ViewDefinition,
+  ExportOptions,
+  ImportOptions,
+  ImportResult,
+  ImportSource
 } from '../types';
-
-export class IndexedDBManager {
+import { runMigrations } from './migrations';
+import { createObjectStore, diffSchema, reconcileStore } from './schema';
+import { ConnectionError, SchemaMismatchError, TransactionError } from './errors';
+import { getTransactionStores, resolveOperationStore, runOperation } from './operations';
+import { ChangeJournal, ChangeRecorder, journalScope, recordChange } from './changes';
+import { QueryBuilder } from './QueryBuilder';
+import { TransactionScope } from './TransactionScope';
+import { runBulk } from './bulk';
+import { createDefaultChannel, getChannelName } from './channel';
+import { delay, getRetryDelay, resolveConnectionPolicy, withTimeout } from './connection';
+import { RecordValidation } from './validation';
+import { OperationPipeline, PreparedOperation } from './middleware';
+import { createEncryptionMiddleware } from './encryption';
+import { exportDatabase, importDatabase } from './transfer';
+import { SYNC_STORES, SyncEngine } from './sync';
+import { SuspenseCache } from './suspense';
+import { VIEWS_STORE, VIEWS_STORE_CONFIG, ViewCache, createViewJournal, toViewSources } from './views';
+
+export class IndexedDBManager<S = UntypedSchema> {
   private db: IDBDatabase | null = null;
   private config: DatabaseConfig;
   private subscribers: Map<string, Set<SubscriptionCallback>> = new Map();
+  private changeSubscribers: Map<string, Set<ChangeCallback>> = new Map();
+  private readTrackers: Set<Set<string>> = new Set();
   private isInitialized: boolean = false;
-
-  constructor(config: DatabaseConfig) {
-    this.config = config;
+  private options: ManagerOptions;
+  private channel: ChangeChannel | null = null;
+  private unsubscribeChannel: (() => void) | null = null;
+  private status: ConnectionStatus = 'closed';
+  private statusListeners: Set<StatusListener> = new Set();
+  private opening: Promise<IDBDatabase> | null = null;
+  private version: number;
+  private validation: RecordValidation;
+  private pipeline: OperationPipeline;
+  private sync: SyncEngine | null = null;
+  private journals: ChangeJournal[] = [];
+  private views: ViewCache;
+  private suspense: SuspenseCache = new SuspenseCache();
+
+  constructor(config: DatabaseConfig<S>, options: ManagerOptions = {}) {
+    this.config = config as DatabaseConfig;
+    this.options = options;
+    this.views = new ViewCache(view => this.computeView(view));
+    const views = this.config.views ?? [];
+    if (views.some(view => view.persist)) {
+      this.config = { ...this.config, stores: [...this.config.stores, VIEWS_STORE_CONFIG] };
+      this.journals.push(createViewJournal(views));
+    }
+    if (options.sync) {
+      this.config = { ...this.config, stores: [...this.config.stores, ...SYNC_STORES] };
+      this.sync = new SyncEngine(options.sync, {
+        ready: () => this.ready(),
+        isConnected: () => this.isConnected(),
+        publish: changeSets => this.publishChanges(changeSets),
+        journals: () => this.localJournals()
+      }, this.config.stores);
+      this.journals.push(this.sync.journal);
+    }
+    this.version = config.version;
+    this.validation = new RecordValidation(
+      storeName => this.getStoreConfig(storeName),
+      options.onQuarantine
+    );
+    this.pipeline = new OperationPipeline(options.middleware ?? [], this.validation, [
+      createEncryptionMiddleware(storeName => this.getStoreConfig(storeName), options.encryption)
+    ]);
   }
 
   async connect(): Promise<IDBDatabase> {
@@ -20,41 +104,152 @@ export class IndexedDBManager {
       return this.db;
     }
 
-    return new Promise<IDBDatabase>((resolve, reject) => {
-      const request = indexedDB.open(this.config.name, this.config.version);
+    return this.opening ?? this.open('connecting');
+  }
+
+  // Operations issued while the database is opening, reconnecting or closed wait here, so they
+  // run in call order once a connection is available. Unlike connect(), failed opens are retried
+  // according to options.connection.
+  async ready(): Promise<IDBDatabase> {
+    if (this.db && this.isInitialized) {
+      return this.db;
+    }
+
+    if (this.status === 'closedByOtherTab' && this.options.autoReconnect === false) {
+      throw new ConnectionError(`Database "${this.config.name}" was closed by another tab`);
+    }
+
+    const policy = resolveConnectionPolicy(this.options.connection);
+    const deadline = Date.now() + policy.timeout;
+
+    const connectWithRetry = async (): Promise<IDBDatabase> => {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await this.connect();
+        } catch (error) {
+          const wait = getRetryDelay(policy, attempt);
+          if (
+            attempt >= policy.retries ||
+            error instanceof SchemaMismatchError ||
+            Date.now() + wait >= deadline
+          ) {
+            throw new ConnectionError(
+              `Failed to open database "${this.config.name}" after ${attempt + 1} attempt(s): ` +
+              (error as Error).message,
+              error
+            );
+          }
+          await delay(wait);
+        }
+      }
+    };
+
+    return withTimeout(
+      connectWithRetry(),
+      policy.timeout,
+      `Timed out after ${policy.timeout}ms waiting for database "${this.config.name}" to open`
+    );
+  }
+
+  private open(initialStatus: ConnectionStatus): Promise<IDBDatabase> {
+    const opening = new Promise<IDBDatabase>((resolve, reject) => {
+      this.setStatus(initialStatus);
+      const request = indexedDB.open(this.config.name, this.version);
+      let upgradeError: Error | null = null;
+      let upgradingDb: IDBDatabase | null = null;
+      let upgraded = false;
+
+      const fail = (error: Error) => {
+        this.setStatus('error');
+        reject(error);
+      };
 
       request.onerror = () => {
-        reject(new Error(`Failed to open database: ${request.error?.message}`));
+        upgradingDb?.close();
+        fail(upgradeError ?? new Error(`Failed to open database: ${request.error?.message}`));
+      };
+
+      request.onblocked = (event) => {
+        this.setStatus('blocked', event);
       };
 
       request.onsuccess = () => {
+        if (upgradeError) {
+          request.result.close();
+          fail(upgradeError);
+          return;
+        }
+
+        if (this.config.strict && !upgraded) {
+          const differences = diffSchema(request.result, this.config.stores);
+          if (differences.length > 0) {
+            request.result.close();
+            fail(new SchemaMismatchError(this.config.name, differences));
+            return;
+          }
+        }
+
         this.db = request.result;
         this.isInitialized = true;
         this.setupEventHandlers();
+        this.openChannel();
+        this.setStatus('open');
         resolve(this.db);
       };
 
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        this.upgradeDatabase(db);
+        const db = request.result;
+        const transaction = request.transaction!;
+        upgradingDb = db;
+        upgraded = true;
+        this.setStatus('upgrading', event);
+
+        this.upgradeDatabase(db, transaction, event.oldVersion, event.newVersion ?? this.config.version)
+          .catch((error: Error) => {
+            upgradeError = error;
+            try {
+              transaction.abort();
+            } catch {
+              // The versionchange transaction already finished; onsuccess reports the error.
+            }
+          });
       };
     });
+
+    this.opening = opening;
+    const settled = () => {
+      if (this.opening === opening) {
+        this.opening = null;
+      }
+    };
+    opening.then(settled, settled);
+    return opening;
   }
 
-  private upgradeDatabase(db: IDBDatabase): void {
+  private async upgradeDatabase(
+    db: IDBDatabase,
+    transaction: IDBTransaction,
+    oldVersion: number,
+    newVersion: number
+  ): Promise<void> {
+    this.createMissingStores(db);
+
+    await runMigrations(db, transaction, this.config.migrations, oldVersion, newVersion);
+
+    this.createMissingStores(db);
+    const unresolved = this.config.stores.flatMap(storeConfig =>
+      reconcileStore(transaction.objectStore(storeConfig.name), storeConfig)
+    );
+
+    if (unresolved.length > 0) {
+      throw new SchemaMismatchError(this.config.name, unresolved);
+    }
+  }
+
+  private createMissingStores(db: IDBDatabase): void {
     this.config.stores.forEach(storeConfig => {
       if (!db.objectStoreNames.contains(storeConfig.name)) {
-        const store = db.createObjectStore(storeConfig.name, {
-          keyPath: storeConfig.keyPath,
-          autoIncrement: storeConfig.autoIncrement
-        });
-
-        storeConfig.indexes?.forEach(index => {
-          store.createIndex(index.name, index.keyPath, {
-            unique: index.unique,
-            multiEntry: index.multiEntry
-          });
-        });
+        createObjectStore(db, storeConfig);
       }
     });
   }
@@ -62,104 +257,197 @@ export class IndexedDBManager {
   private setupEventHandlers(): void {
     if (!this.db) return;
 
-    this.db.onversionchange = () => {
+    this.db.onversionchange = (event) => {
       this.db?.close();
       this.db = null;
       this.isInitialized = false;
+      this.setStatus('closedByOtherTab', event);
+
+      // A deleted database stays closed; after an upgrade, reopen at the newer version once the
+      // other tab's versionchange transaction has finished.
+      if (event.newVersion !== null && this.options.autoReconnect !== false) {
+        this.version = Math.max(this.version, event.newVersion);
+        this.open('reconnecting').catch(error => {
+          console.error('Error reconnecting to database:', error);
+        });
+      }
     };
 
     this.db.onclose = () => {
       this.db = null;
       this.isInitialized = false;
+      this.setStatus('closed');
+    };
+  }
+
+  getStatus(): ConnectionStatus {
+    return this.status;
+  }
+
+  onStatusChange(listener: StatusListener): Subscription {
+    this.statusListeners.add(listener);
+    return {
+      unsubscribe: () => {
+        this.statusListeners.delete(listener);
+      }
     };
   }
 
+  private setStatus(status: ConnectionStatus, event?: IDBVersionChangeEvent): void {
+    this.status = status;
+    this.statusListeners.forEach(listener => {
+      try {
+        listener(status, event);
+      } catch (error) {
+        console.error('Error notifying status listeners:', error);
+      }
+    });
+  }
+
   async disconnect(): Promise<void> {
     if (this.db) {
       this.db.close();
       this.db = null;
       this.isInitialized = false;
+      this.setStatus('closed');
     }
+    this.sync?.stop();
+    this.views.clear();
+    this.suspense.clear();
+    this.closeChannel();
     this.subscribers.clear();
+    this.changeSubscribers.clear();
   }
 
-  async executeTransaction<T = any>(transaction: Transaction): Promise<T> {
-    if (!this.db) {
-      await this.connect();
+  async executeTransaction<T extends unknown[] = unknown[]>(transaction: Transaction): Promise<T> {
+    const storeNames = getTransactionStores(transaction);
+    const targets = transaction.operations.map(operation => resolveOperationStore(operation, storeNames));
+    const mode = transaction.mode || 'readonly';
+    this.readTrackers.forEach(stores => storeNames.forEach(storeName => stores.add(storeName)));
+
+    // Middleware may do real async work, which is only safe before the transaction opens.
+    const prepared: PreparedOperation[] = [];
+    for (const [index, operation] of transaction.operations.entries()) {
+      prepared.push(await this.pipeline.prepare(operation, { storeName: targets[index], mode }));
     }
 
-    return new Promise<T>((resolve, reject) => {
-      if (!this.db) {
-        reject(new Error('Database not connected'));
-        return;
-      }
+    const db = await this.ready();
 
-      const tx = this.db.transaction(transaction.store, transaction.mode || 'readonly');
-      const store = tx.objectStore(transaction.store);
-      const results: any[] = [];
+    const recorder = new ChangeRecorder(this.journals);
+    const values = await new Promise<unknown[]>((resolve, reject) => {
+      const tx = db.transaction(this.transactionScope(storeNames, mode), mode);
+      const results: Array<OperationResult | undefined> = transaction.operations.map(() => undefined);
+      let thrown: Error | null = null;
 
       tx.oncomplete = () => {
-        this.notifySubscribers(transaction.store);
-        resolve(results.length === 1 ? results[0] : results as T);
+        resolve(results.map(result => result?.status === 'fulfilled' ? result.value : undefined));
       };
 
-      tx.onerror = () => {
-        reject(new Error(`Transaction failed: ${tx.error?.message}`));
+      tx.onabort = () => {
+        const message = `Transaction failed: ${(thrown ?? tx.error)?.message ?? 'aborted'}`;
+        reject(new TransactionError(message, results.map(result => result ?? {
+          status: 'rejected',
+          reason: new Error('Transaction aborted before the operation completed')
+        })));
       };
 
-      transaction.operations.forEach(operation => {
-        let request: IDBRequest;
-
-        switch (operation.type) {
-          case 'add':
-            request = store.add(operation.data, operation.key);
-            break;
-          case 'put':
-            request = store.put(operation.data, operation.key);
-            break;
-          case 'delete':
-            request = store.delete(operation.key!);
-            break;
-          case 'clear':
-            request = store.clear();
-            break;
-          case 'get':
-            request = store.get(operation.key!);
-            break;
-          case 'getAll':
-            request = store.getAll(operation.query, operation.data as number);
-            break;
-          case 'count':
-            request = store.count(operation.query);
-            break;
-          default:
-            throw new Error(`Unknown operation type: ${operation.type}`);
+      // A request that cannot even be issued (an invalid key, an unknown index) fails the whole
+      // transaction, like a request that fails later; nothing queued before it may commit.
+      for (const [index, { operation, shortCircuit }] of prepared.entries()) {
+        if (shortCircuit) {
+          results[index] = { status: 'fulfilled', value: shortCircuit.result };
+          continue;
         }
-
-        request.onsuccess = () => {
-          results.push(request.result);
-        };
-      });
+        try {
+          runOperation(tx.objectStore(targets[index]), operation, recorder, value => {
+            results[index] = { status: 'fulfilled', value };
+          }, error => {
+            results[index] = { status: 'rejected', reason: error ?? new Error('Request failed') };
+          });
+        } catch (error) {
+          thrown = error as Error;
+          results[index] = { status: 'rejected', reason: thrown };
+          tx.abort();
+          break;
+        }
+      }
     });
+
+    await this.publishChanges(recorder.getChangeSets());
+    return Promise.all(prepared.map((entry, index) =>
+      this.pipeline.complete(entry, values[index], { storeName: targets[index], mode })
+    )) as Promise<T>;
+  }
+
+  // Journal writes (outbox entries, persisted view invalidations) must commit with the change.
+  private transactionScope(storeNames: string[], mode: IDBTransactionMode): string[] {
+    return mode === 'readonly' ? storeNames : journalScope(this.journals, storeNames);
+  }
+
+  // Journals for writes that did not originate here, which must not be queued for sync.
+  private localJournals(): ChangeJournal[] {
+    return this.journals.filter(journal => journal !== this.sync?.journal);
   }
 
-  async add<T = any>(storeName: string, value: T, key?: IDBValidKey): Promise<IDBValidKey> {
-    return this.executeTransaction<IDBValidKey>({
+  async transaction<R, N extends StoreName<S> = StoreName<S>>(
+    storeNames: N | N[],
+    mode: IDBTransactionMode,
+    callback: TransactionCallback<R, S, N>
+  ): Promise<R> {
+    const names: string[] = Array.isArray(storeNames) ? storeNames : [storeNames];
+    this.readTrackers.forEach(stores => names.forEach(storeName => stores.add(storeName)));
+
+    const db = await this.ready();
+    const recorder = new ChangeRecorder(this.journals);
+    const scope = new TransactionScope<S, N>(
+      db.transaction(this.transactionScope(names, mode), mode),
+      names,
+      recorder,
+      this.pipeline
+    );
+
+    let result: R;
+    try {
+      result = await callback(scope);
+    } catch (error) {
+      scope.abort(error);
+      await scope.completion.catch(() => undefined);
+      throw error;
+    }
+
+    // Resolve only once the commit has landed; an abort surfaces its reason instead.
+    await scope.completion;
+    await this.publishChanges(recorder.getChangeSets());
+    return result;
+  }
+
+  async add<T = never, N extends StoreName<S> = StoreName<S>>(
+    storeName: N,
+    value: NoInferValue<ResolvedValue<T, S, N>>,
+    key?: StoreKey<S, N>
+  ): Promise<StoreKey<S, N>> {
+    const [result] = await this.executeTransaction<[StoreKey<S, N>]>({
       store: storeName,
       mode: 'readwrite',
       operations: [{ type: 'add', data: value, key }]
     });
+    return result;
   }
 
-  async put<T = any>(storeName: string, value: T, key?: IDBValidKey): Promise<IDBValidKey> {
-    return this.executeTransaction<IDBValidKey>({
+  async put<T = never, N extends StoreName<S> = StoreName<S>>(
+    storeName: N,
+    value: NoInferValue<ResolvedValue<T, S, N>>,
+    key?: StoreKey<S, N>
+  ): Promise<StoreKey<S, N>> {
+    const [result] = await this.executeTransaction<[StoreKey<S, N>]>({
       store: storeName,
       mode: 'readwrite',
       operations: [{ type: 'put', data: value, key }]
     });
+    return result;
   }
 
-  async delete(storeName: string, key: IDBValidKey | IDBKeyRange): Promise<void> {
+  async delete<N extends StoreName<S>>(storeName: N, key: StoreKey<S, N> | IDBKeyRange): Promise<void> {
     await this.executeTransaction({
       store: storeName,
       mode: 'readwrite',
@@ -167,7 +455,7 @@ export class IndexedDBManager {
     });
   }
 
-  async clear(storeName: string): Promise<void> {
+  async clear(storeName: StoreName<S>): Promise<void> {
     await this.executeTransaction({
       store: storeName,
       mode: 'readwrite',
@@ -175,35 +463,114 @@ export class IndexedDBManager {
     });
   }
 
-  async get<T = any>(storeName: string, key: IDBValidKey): Promise<T | undefined> {
-    return this.executeTransaction<T | undefined>({
+  async get<T = never, N extends StoreName<S> = StoreName<S>>(
+    storeName: N,
+    key: StoreKey<S, N>
+  ): Promise<ResolvedValue<T, S, N> | undefined> {
+    const [result] = await this.executeTransaction<[ResolvedValue<T, S, N> | undefined]>({
       store: storeName,
       mode: 'readonly',
       operations: [{ type: 'get', key }]
     });
+    return result;
   }
 
-  async getAll<T = any>(
-    storeName: string, 
-    query?: IDBKeyRange | IDBValidKey, 
+  async getAll<T = never, N extends StoreName<S> = StoreName<S>>(
+    storeName: N,
+    query?: IDBKeyRange | StoreKey<S, N>,
     count?: number
-  ): Promise<T[]> {
-    return this.executeTransaction<T[]>({
+  ): Promise<ResolvedValue<T, S, N>[]> {
+    const [result] = await this.executeTransaction<[ResolvedValue<T, S, N>[]]>({
       store: storeName,
       mode: 'readonly',
       operations: [{ type: 'getAll', query, data: count }]
     });
+    return result;
   }
 
-  async count(storeName: string, query?: IDBKeyRange | IDBValidKey): Promise<number> {
-    return this.executeTransaction<number>({
+  async find<T = never, N extends StoreName<S> = StoreName<S>>(
+    storeName: N,
+    options: QueryOptions<ResolvedValue<T, S, N>, StoreIndexName<S, N>> = {}
+  ): Promise<ResolvedValue<T, S, N>[]> {
+    const [result] = await this.executeTransaction<[ResolvedValue<T, S, N>[]]>({
+      store: storeName,
+      mode: 'readonly',
+      operations: [{ type: 'find', options }]
+    });
+    return result;
+  }
+
+  executeBulk<R = unknown>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operations: Operation[],
+    options: BulkOptions = {}
+  ): Promise<BulkResult<R>> {
+    this.readTrackers.forEach(stores => stores.add(storeName));
+
+    return runBulk<R>(async () => {
+      const db = await this.ready();
+      return db.transaction(this.transactionScope([storeName], mode), mode).objectStore(storeName);
+    }, operations, options, this.pipeline, { storeName, mode }, changeSets => this.publishChanges(changeSets),
+    this.journals);
+  }
+
+  async bulkAdd<T = never, N extends StoreName<S> = StoreName<S>>(
+    storeName: N,
+    values: ResolvedValue<T, S, N>[],
+    options: BulkOptions = {}
+  ): Promise<BulkResult<StoreKey<S, N>>> {
+    return this.executeBulk(storeName, 'readwrite', values.map(data => ({ type: 'add', data })), options);
+  }
+
+  async bulkPut<T = never, N extends StoreName<S> = StoreName<S>>(
+    storeName: N,
+    values: ResolvedValue<T, S, N>[],
+    options: BulkOptions = {}
+  ): Promise<BulkResult<StoreKey<S, N>>> {
+    return this.executeBulk(storeName, 'readwrite', values.map(data => ({ type: 'put', data })), options);
+  }
+
+  async bulkGet<T = never, N extends StoreName<S> = StoreName<S>>(
+    storeName: N,
+    keys: StoreKey<S, N>[],
+    options: BulkOptions = {}
+  ): Promise<BulkResult<ResolvedValue<T, S, N>>> {
+    return this.executeBulk(storeName, 'readonly', keys.map(key => ({ type: 'get', key })), options);
+  }
+
+  async bulkDelete<N extends StoreName<S>>(
+    storeName: N,
+    keys: StoreKey<S, N>[],
+    options: BulkOptions = {}
+  ): Promise<BulkResult<void>> {
+    return this.executeBulk(storeName, 'readwrite', keys.map(key => ({ type: 'delete', key })), options);
+  }
+
+  query<T = never, N extends StoreName<S> = StoreName<S>>(
+    storeName: N
+  ): QueryBuilder<ResolvedValue<T, S, N>, StoreIndexName<S, N>, StoreKey<S, N>> {
+    return new QueryBuilder(
+      storeName,
+      this.getStoreConfig(storeName),
+      transaction => this.executeTransaction(transaction),
+      callback => this.transaction(storeName, 'readwrite', tx => callback(tx as unknown as TransactionScope))
+    );
+  }
+
+  async count<N extends StoreName<S>>(storeName: N, query?: IDBKeyRange | StoreKey<S, N>): Promise<number> {
+    const [result] = await this.executeTransaction<[number]>({
       store: storeName,
       mode: 'readonly',
       operations: [{ type: 'count', query }]
     });
+    return result;
   }
 
-  subscribe<T = any>(storeName: string, callback: SubscriptionCallback<T>): Subscription {
+  subscribe<T = never, N extends StoreName<S> = StoreName<S>>(
+    storeName: N,
+    callback: SubscriptionCallback<ResolvedValue<T, S, N>>
+  ): Subscription {
     if (!this.subscribers.has(storeName)) {
       this.subscribers.set(storeName, new Set());
     }
@@ -211,7 +578,7 @@ export class IndexedDBManager {
     const callbacks = this.subscribers.get(storeName)!;
     callbacks.add(callback);
 
-    this.getAll<T>(storeName).then(data => {
+    this.getAll<T, N>(storeName).then(data => {
       callback(data);
     }).catch(console.error);
 
@@ -225,18 +592,185 @@ export class IndexedDBManager {
     };
   }
 
-  private async notifySubscribers(storeName: string): Promise<void> {
-    const callbacks = this.subscribers.get(storeName);
+  // Every store touched while the querier is pending is attributed to it. Overlapping queriers
+  // may pick up each other's stores, which only costs an extra re-run, never a missed update.
+  async trackStores<R>(querier: () => Promise<R>): Promise<{ result: R; stores: string[] }> {
+    const stores = new Set<string>();
+    this.readTrackers.add(stores);
+
+    try {
+      const result = await querier();
+      return { result, stores: Array.from(stores) };
+    } finally {
+      this.readTrackers.delete(stores);
+    }
+  }
+
+  subscribeChanges<T = never, N extends StoreName<S> = StoreName<S>>(
+    storeName: N,
+    callback: ChangeCallback<ResolvedValue<T, S, N>>
+  ): Subscription {
+    if (!this.changeSubscribers.has(storeName)) {
+      this.changeSubscribers.set(storeName, new Set());
+    }
+
+    const callbacks = this.changeSubscribers.get(storeName)!;
+    const listener = callback as ChangeCallback;
+    callbacks.add(listener);
+
+    return {
+      unsubscribe: () => {
+        callbacks.delete(listener);
+        if (callbacks.size === 0) {
+          this.changeSubscribers.delete(storeName);
+        }
+      }
+    };
+  }
+
+  // Record subscribers only hear about change sets that touch their key.
+  subscribeRecord<T = never, N extends StoreName<S> = StoreName<S>>(
+    storeName: N,
+    key: StoreKey<S, N>,
+    callback: RecordCallback<ResolvedValue<T, S, N>>
+  ): Subscription {
+    return this.subscribeChanges<T, N>(storeName, changeSet => {
+      const change = recordChange(changeSet, key);
+      if (change) {
+        callback(change);
+      }
+    });
+  }
+
+  private openChannel(): void {
+    if (this.channel || this.options.crossTab === false) return;
+
+    const createChannel = this.options.channelFactory ?? createDefaultChannel;
+    this.channel = createChannel(getChannelName(this.config.name));
+    this.unsubscribeChannel = this.channel?.subscribe(message => {
+      this.notifySubscribers({ ...message.changeSet, remote: true });
+    }) ?? null;
+  }
+
+  private closeChannel(): void {
+    this.unsubscribeChannel?.();
+    this.channel?.close();
+    this.unsubscribeChannel = null;
+    this.channel = null;
+  }
+
+  private async publishChanges(changeSets: ChangeSet[]): Promise<void> {
+    try {
+      const presented = await Promise.all(changeSets.map(changeSet => this.pipeline.presentChanges(changeSet)));
+      presented.forEach(changeSet => this.notifySubscribers(changeSet));
+    } catch (error) {
+      console.error('Error notifying subscribers:', error);
+    }
+  }
+
+  private async notifySubscribers(changeSet: ChangeSet): Promise<void> {
+    if (changeSet.changes.length === 0) return;
+
+    this.views.invalidate(changeSet.storeName);
+    this.suspense.invalidate(changeSet.storeName);
+
+    if (!changeSet.remote) {
+      try {
+        this.channel?.postMessage({ changeSet });
+      } catch (error) {
+        console.error('Error broadcasting changes:', error);
+      }
+    }
+
+    this.changeSubscribers.get(changeSet.storeName)?.forEach(callback => {
+      try {
+        callback(changeSet);
+      } catch (error) {
+        console.error('Error notifying subscribers:', error);
+      }
+    });
+
+    const callbacks = this.subscribers.get(changeSet.storeName);
     if (!callbacks || callbacks.size === 0) return;
 
     try {
-      const data = await this.getAll(storeName);
-      callbacks.forEach(callback => callback(data));
+      const data = await this.getAll(changeSet.storeName as StoreName<S>);
+      callbacks.forEach(callback => callback(data, changeSet));
     } catch (error) {
       console.error('Error notifying subscribers:', error);
     }
   }
 
+  // Records are exported and imported as stored: middleware and validators do not run.
+  export(options: ExportOptions = {}): AsyncGenerator<string> {
+    return exportDatabase(() => this.ready(), this.config, options);
+  }
+
+  async import(source: ImportSource, options: ImportOptions = {}): Promise<ImportResult> {
+    return importDatabase(() => this.ready(), this.config, source, options, changeSets =>
+      this.publishChanges(changeSets), this.localJournals()
+    );
+  }
+
+  use(middleware: Middleware): () => void {
+    return this.pipeline.use(middleware);
+  }
+
+  getQuarantined(storeName?: StoreName<S>): QuarantinedRecord[] {
+    return this.validation.getQuarantined(storeName);
+  }
+
+  clearQuarantine(storeName?: StoreName<S>): void {
+    this.validation.clearQuarantine(storeName);
+  }
+
+  getView<R>(view: ViewDefinition<R>): Promise<R> {
+    return this.views.get(view);
+  }
+
+  // Persisted results are read and written in one transaction with the sources, so a concurrent
+  // write either lands before the snapshot or deletes the result it produced.
+  private async computeView(view: ViewDefinition): Promise<unknown> {
+    const stores = view.stores as StoreName<S>[];
+
+    if (!view.persist) {
+      const records = await this.executeTransaction<unknown[][]>({
+        store: stores,
+        mode: 'readonly',
+        operations: stores.map(store => ({ type: 'getAll', store }))
+      });
+      return view.compute(toViewSources(view, records));
+    }
+
+    if (!this.config.views?.some(registered => registered.name === view.name)) {
+      throw new Error(`View "${view.name}" is persisted but not listed in the database config's views`);
+    }
+
+    const key = view.name as StoreKey<S, StoreName<S>>;
+    return this.transaction([...stores, VIEWS_STORE as StoreName<S>], 'readwrite', async (tx) => {
+      const results = tx.store<{ value: unknown }>(VIEWS_STORE as StoreName<S>);
+      const saved = await results.get(key);
+      if (saved) return saved.value;
+
+      const records = await Promise.all(stores.map(store => tx.store<unknown>(store).getAll()));
+      const value = view.compute(toViewSources(view, records));
+      await results.put({ value }, key);
+      return value;
+    });
+  }
+
+  getSyncEngine(): SyncEngine | null {
+    return this.sync;
+  }
+
+  getSuspenseCache(): SuspenseCache {
+    return this.suspense;
+  }
+
+  getStoreConfig(storeName: string): StoreConfig | undefined {
+    return this.config.stores.find(storeConfig => storeConfig.name === storeName);
+  }
+
   getDatabase(): IDBDatabase | null {
     return this.db;
   }
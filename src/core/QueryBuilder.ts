@@ -0,0 +1,211 @@
+import { FieldPath, Operation, QueryOptions, QueryPosition, StoreConfig, Transaction } from '../types';
+import { getValueByKeyPath, rangeIncludes } from './keys';
+import { TransactionScope } from './TransactionScope';
+
+type TransactionExecutor = <R extends unknown[] = unknown[]>(transaction: Transaction) => Promise<R>;
+type ReadWriteTransactor = <R>(callback: (tx: TransactionScope) => Promise<R>) => Promise<R>;
+
+interface QueryState<T> {
+  where?: { keyPath: string; range: IDBKeyRange };
+  filters: Array<(value: T) => boolean>;
+  orderBy?: string;
+  reverse: boolean;
+  offset?: number;
+  limit?: number;
+  after?: QueryPosition;
+}
+
+export class QueryBuilder<T = unknown, I extends string = string, K extends IDBValidKey = IDBValidKey> {
+  constructor(
+    private readonly storeName: string,
+    private readonly storeConfig: StoreConfig | undefined,
+    private readonly execute: TransactionExecutor,
+    private readonly transact: ReadWriteTransactor,
+    private readonly state: QueryState<T> = { filters: [], reverse: false }
+  ) {}
+
+  where(keyPath: I | FieldPath<T>): WhereClause<T, I, K> {
+    return new WhereClause<T, I, K>(range => this.with({ where: { keyPath, range } }));
+  }
+
+  filter(predicate: (value: T) => boolean): QueryBuilder<T, I, K> {
+    return this.with({ filters: [...this.state.filters, predicate] });
+  }
+
+  orderBy(keyPath: I | FieldPath<T>): QueryBuilder<T, I, K> {
+    return this.with({ orderBy: keyPath });
+  }
+
+  reverse(): QueryBuilder<T, I, K> {
+    return this.with({ reverse: !this.state.reverse });
+  }
+
+  offset(count: number): QueryBuilder<T, I, K> {
+    return this.with({ offset: count });
+  }
+
+  limit(count: number): QueryBuilder<T, I, K> {
+    return this.with({ limit: count });
+  }
+
+  after(position: QueryPosition): QueryBuilder<T, I, K> {
+    return this.with({ after: position });
+  }
+
+  getStoreName(): string {
+    return this.storeName;
+  }
+
+  toOptions(): QueryOptions<T, I> {
+    const { where, orderBy } = this.state;
+    const filters = [...this.state.filters];
+    const options: QueryOptions<T, I> = {
+      direction: this.state.reverse ? 'prev' : 'next',
+      offset: this.state.offset,
+      limit: this.state.limit,
+      after: this.state.after
+    };
+
+    const whereSource = where ? this.resolveSource(where.keyPath) : null;
+    if (where && whereSource) {
+      options.index = whereSource.index;
+      options.query = where.range;
+    } else if (where) {
+      filters.unshift(value => rangeIncludes(where.range, getValueByKeyPath(value, where.keyPath)));
+    }
+
+    if (orderBy !== undefined) {
+      const orderSource = this.resolveSource(orderBy);
+      if (whereSource) {
+        if (!orderSource || orderSource.index !== whereSource.index) {
+          options.orderBy = orderBy;
+        }
+      } else if (orderSource) {
+        options.index = orderSource.index;
+      } else {
+        options.orderBy = orderBy;
+      }
+    }
+
+    if (filters.length > 0) {
+      options.filter = value => filters.every(predicate => predicate(value));
+    }
+
+    return options;
+  }
+
+  async toArray(): Promise<T[]> {
+    return this.run<T[]>('readonly', { type: 'find', options: this.toOptions() });
+  }
+
+  async first(): Promise<T | undefined> {
+    const [value] = await this.limit(1).toArray();
+    return value;
+  }
+
+  async count(): Promise<number> {
+    return this.run<number>('readonly', { type: 'count', options: this.toOptions() });
+  }
+
+  async keys(): Promise<K[]> {
+    return this.run<K[]>('readonly', { type: 'keys', options: this.toOptions() });
+  }
+
+  // Every match is written back with its own put, so validation and middleware see it like any
+  // other write, and one rejected record rolls back the whole query.
+  async modify(changes: Partial<T> | ((value: T) => T | void)): Promise<number> {
+    const options = this.toOptions();
+    return this.transact(async tx => {
+      const store = tx.store(this.storeName);
+      const inline = tx.transaction.objectStore(this.storeName).keyPath !== null;
+      const keys = await store.keys(options);
+      // Quarantined records read back as undefined and are left alone.
+      const matches = (await Promise.all(keys.map(async key => ({ key, value: (await store.get(key)) as T | undefined }))))
+        .filter((match): match is { key: IDBValidKey; value: T } => match.value !== undefined);
+
+      await Promise.all(matches.map(({ key, value }) => {
+        let next: T;
+        if (typeof changes === 'function') {
+          const result = changes(value);
+          next = result === undefined ? value : result;
+        } else {
+          next = { ...value, ...changes };
+        }
+        return inline ? store.put(next) : store.put(next, key);
+      }));
+      return matches.length;
+    });
+  }
+
+  async delete(): Promise<number> {
+    return this.run<number>('readwrite', { type: 'delete', options: this.toOptions() });
+  }
+
+  private async run<R>(mode: IDBTransactionMode, operation: Operation<T>): Promise<R> {
+    const [result] = await this.execute<[R]>({ store: this.storeName, mode, operations: [operation] });
+    return result;
+  }
+
+  private with(changes: Partial<QueryState<T>>): QueryBuilder<T, I, K> {
+    return new QueryBuilder<T, I, K>(
+      this.storeName,
+      this.storeConfig,
+      this.execute,
+      this.transact,
+      { ...this.state, ...changes }
+    );
+  }
+
+  private resolveSource(keyPath: string): { index?: I } | null {
+    if (!this.storeConfig) {
+      return null;
+    }
+    if (this.storeConfig.keyPath === keyPath) {
+      return { index: undefined };
+    }
+
+    const indexes = this.storeConfig.indexes ?? [];
+    const byName = indexes.find(index => index.name === keyPath);
+    const byKeyPath = indexes.find(index => index.keyPath === keyPath && !index.multiEntry);
+    const index = byName ?? byKeyPath;
+
+    return index ? { index: index.name as I } : null;
+  }
+}
+
+export class WhereClause<T = unknown, I extends string = string, K extends IDBValidKey = IDBValidKey> {
+  constructor(private readonly apply: (range: IDBKeyRange) => QueryBuilder<T, I, K>) {}
+
+  equals(value: IDBValidKey): QueryBuilder<T, I, K> {
+    return this.apply(IDBKeyRange.only(value));
+  }
+
+  above(value: IDBValidKey): QueryBuilder<T, I, K> {
+    return this.apply(IDBKeyRange.lowerBound(value, true));
+  }
+
+  aboveOrEqual(value: IDBValidKey): QueryBuilder<T, I, K> {
+    return this.apply(IDBKeyRange.lowerBound(value));
+  }
+
+  below(value: IDBValidKey): QueryBuilder<T, I, K> {
+    return this.apply(IDBKeyRange.upperBound(value, true));
+  }
+
+  belowOrEqual(value: IDBValidKey): QueryBuilder<T, I, K> {
+    return this.apply(IDBKeyRange.upperBound(value));
+  }
+
+  between(
+    lower: IDBValidKey,
+    upper: IDBValidKey,
+    includeLower: boolean = true,
+    includeUpper: boolean = true
+  ): QueryBuilder<T, I, K> {
+    return this.apply(IDBKeyRange.bound(lower, upper, !includeLower, !includeUpper));
+  }
+
+  startsWith(prefix: string): QueryBuilder<T, I, K> {
+    return this.apply(IDBKeyRange.bound(prefix, prefix + '\uffff'));
+  }
+}
@@ -0,0 +1,141 @@
+import {
+  Operation,
+  QueryOptions,
+  StoreIndexName,
+  StoreKey,
+  StoreName,
+  ResolvedValue,
+  UntypedSchema
+} from '../types';
+import { ChangeRecorder } from './changes';
+import { resolveOperationStore, runOperation } from './operations';
+import { OperationPipeline } from './middleware';
+
+export class TransactionScope<S = UntypedSchema, N extends StoreName<S> = StoreName<S>> {
+  private pending: Set<(reason: unknown) => void> = new Set();
+  private abortReason: unknown = undefined;
+  private finished: boolean = false;
+
+  readonly completion: Promise<void>;
+
+  constructor(
+    readonly transaction: IDBTransaction,
+    readonly storeNames: string[],
+    private readonly recorder: ChangeRecorder,
+    private readonly pipeline: OperationPipeline
+  ) {
+    this.completion = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => {
+        this.finished = true;
+        resolve();
+      };
+
+      transaction.onabort = () => {
+        this.finished = true;
+        const reason = this.abortReason ??
+          (transaction.error ? new Error(`Transaction failed: ${transaction.error.message}`) : null) ??
+          new Error('Transaction aborted');
+        this.pending.forEach(rejectOperation => rejectOperation(reason));
+        this.pending.clear();
+        reject(reason);
+      };
+    });
+  }
+
+  store<T = never, M extends N = N>(
+    storeName: M
+  ): TransactionStore<ResolvedValue<T, S, M>, StoreKey<S, M>, StoreIndexName<S, M>> {
+    resolveOperationStore({ type: 'clear', store: storeName }, this.storeNames);
+    return new TransactionStore(this, storeName);
+  }
+
+  abort(reason?: unknown): void {
+    if (this.finished) return;
+    this.abortReason = reason ?? new Error('Transaction aborted');
+    try {
+      this.transaction.abort();
+    } catch {
+      // Already committing; the completion promise reports the outcome.
+    }
+  }
+
+  // Middleware runs inside the transaction here, so it must not wait on anything but IndexedDB.
+  async run<R>(storeName: string, operation: Operation): Promise<R> {
+    const context = { storeName, mode: this.transaction.mode, transaction: this.transaction };
+    // A rejected operation fails the whole transaction, even if the callback catches it.
+    const prepared = await this.pipeline.prepare(operation, context).catch(error => {
+      this.abort(error);
+      throw error;
+    });
+    const result = prepared.shortCircuit
+      ? prepared.shortCircuit.result
+      : await this.request(storeName, prepared.operation);
+    return await this.pipeline.complete(prepared, result, context) as R;
+  }
+
+  private request(storeName: string, operation: Operation): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      if (this.finished) {
+        reject(new Error('Transaction has already finished'));
+        return;
+      }
+
+      this.pending.add(reject);
+      try {
+        runOperation(this.transaction.objectStore(storeName), operation, this.recorder, result => {
+          this.pending.delete(reject);
+          resolve(result);
+        }, error => {
+          this.pending.delete(reject);
+          reject(error);
+        });
+      } catch (error) {
+        // A request that cannot even be issued (a missing key, an unknown index) fails the whole
+        // transaction, like a request that fails later.
+        this.pending.delete(reject);
+        this.abort(error);
+        reject(error);
+      }
+    });
+  }
+}
+
+export class TransactionStore<T = unknown, K extends IDBValidKey = IDBValidKey, I extends string = string> {
+  constructor(private readonly scope: Pick<TransactionScope, 'run'>, readonly name: string) {}
+
+  add(value: T, key?: K): Promise<K> {
+    return this.scope.run(this.name, { type: 'add', data: value, key });
+  }
+
+  put(value: T, key?: K): Promise<K> {
+    return this.scope.run(this.name, { type: 'put', data: value, key });
+  }
+
+  delete(key: K | IDBKeyRange): Promise<void> {
+    return this.scope.run(this.name, { type: 'delete', key });
+  }
+
+  clear(): Promise<void> {
+    return this.scope.run(this.name, { type: 'clear' });
+  }
+
+  get(key: K): Promise<T | undefined> {
+    return this.scope.run(this.name, { type: 'get', key });
+  }
+
+  getAll(query?: IDBKeyRange | K, count?: number): Promise<T[]> {
+    return this.scope.run(this.name, { type: 'getAll', query, data: count });
+  }
+
+  count(query?: IDBKeyRange | K): Promise<number> {
+    return this.scope.run(this.name, { type: 'count', query });
+  }
+
+  find(options: QueryOptions<T, I> = {}): Promise<T[]> {
+    return this.scope.run(this.name, { type: 'find', options });
+  }
+
+  keys(options: QueryOptions<T, I> = {}): Promise<K[]> {
+    return this.scope.run(this.name, { type: 'keys', options });
+  }
+}
@@ -0,0 +1,142 @@
+import { BulkFailure, BulkOptions, BulkResult, ChangeSet, MiddlewareContext, Operation } from '../types';
+import { ChangeJournal, ChangeRecorder } from './changes';
+import { BulkError } from './errors';
+import { OperationPipeline, PreparedOperation } from './middleware';
+import { runOperation } from './operations';
+
+export const DEFAULT_BULK_CHUNK_SIZE = 1000;
+
+interface ChunkOutcome {
+  changeSets: ChangeSet[];
+  aborted: boolean;
+}
+
+export async function runBulk<R>(
+  openStore: () => Promise<IDBObjectStore>,
+  operations: Operation[],
+  options: BulkOptions,
+  pipeline: OperationPipeline,
+  context: MiddlewareContext,
+  onCommit: (changeSets: ChangeSet[]) => Promise<void>,
+  journals: ChangeJournal[] = []
+): Promise<BulkResult<R>> {
+  const chunkSize = options.chunkSize ?? DEFAULT_BULK_CHUNK_SIZE;
+  if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+    throw new Error(`Bulk chunk size must be a positive integer, got ${chunkSize}`);
+  }
+
+  const results: Array<R | undefined> = operations.map(() => undefined);
+  const failures: BulkFailure[] = [];
+  const total = operations.length;
+  const continueOnError = Boolean(options.continueOnError);
+
+  for (let start = 0; start < total; start += chunkSize) {
+    const chunk = operations.slice(start, start + chunkSize);
+    const prepared: Array<PreparedOperation | null> = [];
+    const chunkResults: Map<number, unknown> = new Map();
+    const chunkFailures: BulkFailure[] = [];
+
+    for (const [index, operation] of chunk.entries()) {
+      try {
+        prepared.push(await pipeline.prepare(operation, context));
+      } catch (error) {
+        prepared.push(null);
+        chunkFailures.push({ index: start + index, error: error as Error });
+        if (!continueOnError) {
+          failures.push(...chunkFailures);
+          throw new BulkError(start, results, failures);
+        }
+      }
+    }
+
+    const { changeSets, aborted } = await runChunk(
+      await openStore(),
+      prepared,
+      continueOnError,
+      journals,
+      (index, value) => {
+        chunkResults.set(index, value);
+      },
+      (index, error) => {
+        chunkFailures.push({ index: start + index, error });
+      }
+    );
+
+    failures.push(...chunkFailures.sort((a, b) => a.index - b.index));
+    if (aborted) {
+      throw new BulkError(start, results, failures);
+    }
+
+    await onCommit(changeSets);
+    for (const [index, value] of chunkResults) {
+      results[start + index] = await pipeline.complete(prepared[index]!, value, context) as R;
+    }
+    options.onProgress?.({
+      completed: Math.min(start + chunkSize, total),
+      total,
+      failed: failures.length
+    });
+  }
+
+  return { results, failures };
+}
+
+function runChunk(
+  store: IDBObjectStore,
+  prepared: Array<PreparedOperation | null>,
+  continueOnError: boolean,
+  journals: ChangeJournal[],
+  onSuccess: (index: number, value: unknown) => void,
+  onFailure: (index: number, error: Error) => void
+): Promise<ChunkOutcome> {
+  return new Promise((resolve, reject) => {
+    const tx = store.transaction;
+    const recorder = new ChangeRecorder(journals);
+    let failed = false;
+
+    const fail = (index: number, error: Error) => {
+      onFailure(index, error);
+      if (!continueOnError && !failed) {
+        failed = true;
+        try {
+          tx.abort();
+        } catch {
+          // The transaction is already finishing; onabort reports the outcome.
+        }
+      }
+    };
+
+    tx.oncomplete = () => resolve({ changeSets: recorder.getChangeSets(), aborted: false });
+
+    tx.onabort = () => {
+      if (failed) {
+        resolve({ changeSets: [], aborted: true });
+      } else {
+        reject(new Error(`Transaction failed: ${tx.error?.message ?? 'aborted'}`));
+      }
+    };
+
+    if (continueOnError) {
+      // Cancelling the bubbled error event keeps the transaction alive for the remaining records.
+      tx.onerror = event => event.preventDefault();
+    }
+
+    for (let index = 0; index < prepared.length && !failed; index++) {
+      const entry = prepared[index];
+      if (!entry) continue;
+      if (entry.shortCircuit) {
+        onSuccess(index, entry.shortCircuit.result);
+        continue;
+      }
+
+      try {
+        runOperation(store, entry.operation, recorder, value => onSuccess(index, value), error => {
+          failed = failed || !continueOnError;
+          onFailure(index, error ?? new Error('Request failed'));
+        });
+      } catch (error) {
+        fail(index, error as Error);
+      }
+    }
+  });
+}
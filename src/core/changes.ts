@@ -0,0 +1,178 @@
+import { ChangeSet, QueryOptions, StoreChange, StoreConfig } from '../types';
+import { getValueByKeyPath, isValidKey, rangeIncludes, setValueByKeyPath } from './keys';
+
+// Journals are called inside the writing transaction for every change, so whatever they write
+// commits or rolls back together with the change. `scope` names the stores a journal writes to when
+// a given store changes; they are added to every write transaction over that store.
+export interface ChangeJournal {
+  scope: (storeName: string) => string[];
+  record: (transaction: IDBTransaction, storeName: string, change: StoreChange) => void;
+}
+
+export function journalScope(journals: ChangeJournal[], storeNames: string[]): string[] {
+  return Array.from(new Set([
+    ...storeNames,
+    ...storeNames.flatMap(storeName => journals.flatMap(journal => journal.scope(storeName)))
+  ]));
+}
+
+export class ChangeRecorder {
+  private changes: Map<string, StoreChange[]> = new Map();
+
+  constructor(private readonly journals: ChangeJournal[] = []) {}
+
+  record(storeName: string, change: StoreChange, transaction?: IDBTransaction): void {
+    if (!this.changes.has(storeName)) {
+      this.changes.set(storeName, []);
+    }
+    this.changes.get(storeName)!.push(change);
+    if (transaction) {
+      this.journals.forEach(journal => journal.record(transaction, storeName, change));
+    }
+  }
+
+  getChangeSets(): ChangeSet[] {
+    return Array.from(this.changes, ([storeName, changes]) => ({ storeName, changes }));
+  }
+}
+
+export function withPrimaryKey<T>(
+  value: T,
+  keyPath: string | string[] | null,
+  key: IDBValidKey
+): T {
+  if (typeof keyPath !== 'string' || keyPath === '' || value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (getValueByKeyPath(value, keyPath) !== undefined) {
+    return value;
+  }
+
+  return setValueByKeyPath(value, keyPath, key);
+}
+
+export function applyChangeSet<T>(
+  records: T[],
+  changeSet: ChangeSet<T>,
+  keyPath: string | string[] | null | undefined
+): T[] | null {
+  if (!keyPath) {
+    return null;
+  }
+
+  let next = [...records];
+  const keyOf = (record: T) => getValueByKeyPath(record, keyPath) as IDBValidKey;
+  const findIndex = (key: IDBValidKey) => next.findIndex(record => indexedDB.cmp(keyOf(record), key) === 0);
+
+  for (const change of changeSet.changes) {
+    if (change.type === 'clear') {
+      next = [];
+      continue;
+    }
+
+    if (change.key === undefined) {
+      return null;
+    }
+
+    const key = change.key;
+    const existing = findIndex(key);
+
+    if (change.type === 'delete') {
+      if (existing !== -1) {
+        next.splice(existing, 1);
+      }
+      continue;
+    }
+
+    if (change.value === undefined) {
+      return null;
+    }
+
+    if (existing !== -1) {
+      next[existing] = change.value;
+      continue;
+    }
+
+    let low = 0;
+    let high = next.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (indexedDB.cmp(keyOf(next[middle]), key) < 0) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    next.splice(low, 0, change.value);
+  }
+
+  return next;
+}
+
+// The last change in the set that can affect the record stored under `key`, if any.
+export function recordChange<T>(changeSet: ChangeSet<T>, key: IDBValidKey): StoreChange<T> | null {
+  let latest: StoreChange<T> | null = null;
+  for (const change of changeSet.changes) {
+    if (change.type === 'clear' || change.key === undefined || indexedDB.cmp(change.key, key) === 0) {
+      latest = change;
+    }
+  }
+  return latest;
+}
+
+export function changeAffectsQuery<T>(
+  changeSet: ChangeSet<T>,
+  storeConfig: StoreConfig | undefined,
+  options: QueryOptions<T>,
+  results: T[]
+): boolean {
+  const keyPath = storeConfig?.keyPath;
+  const index = options.index
+    ? storeConfig?.indexes?.find(indexConfig => indexConfig.name === options.index)
+    : undefined;
+
+  if (options.index && !index) {
+    return true;
+  }
+
+  const resultKeys = keyPath ? results.map(record => getValueByKeyPath(record, keyPath)) : null;
+  const windowed = (options.offset ?? 0) > 0;
+
+  const inResults = (key: IDBValidKey | undefined) =>
+    key === undefined ||
+    resultKeys === null ||
+    resultKeys.some(resultKey => isValidKey(resultKey) && indexedDB.cmp(resultKey, key) === 0);
+
+  const matches = (change: StoreChange<T>) => {
+    if (change.value === undefined) {
+      return true;
+    }
+    if (options.filter && !options.filter(change.value)) {
+      return false;
+    }
+    if (options.query === undefined) {
+      return true;
+    }
+
+    const key = index ? getValueByKeyPath(change.value, index.keyPath) : change.key;
+    if (index?.multiEntry && Array.isArray(key)) {
+      return key.some(entry => rangeIncludes(options.query!, entry));
+    }
+    return rangeIncludes(options.query, key);
+  };
+
+  return changeSet.changes.some(change => {
+    switch (change.type) {
+      case 'clear':
+        return results.length > 0 || windowed;
+      case 'delete':
+        return windowed || inResults(change.key);
+      case 'add':
+        return matches(change);
+      case 'update':
+        return inResults(change.key) || matches(change);
+      default:
+        return true;
+    }
+  });
+}
@@ -0,0 +1,105 @@
+import { ChangeChannel, ChangeMessage, ChangeSet } from '../types';
+
+export function getChannelName(databaseName: string): string {
+  return `use-indexdb:${databaseName}`;
+}
+
+export function createDefaultChannel(name: string): ChangeChannel | null {
+  if (typeof BroadcastChannel !== 'undefined') {
+    return createBroadcastChannel(name);
+  }
+  if (typeof window !== 'undefined' && typeof window.localStorage !== 'undefined') {
+    return createStorageChannel(name);
+  }
+  return null;
+}
+
+export function createBroadcastChannel(name: string): ChangeChannel {
+  const channel = new BroadcastChannel(name);
+
+  return {
+    postMessage: message => channel.postMessage(message),
+    subscribe: listener => {
+      const handler = (event: MessageEvent<ChangeMessage>) => listener(event.data);
+      channel.addEventListener('message', handler);
+      return () => channel.removeEventListener('message', handler);
+    },
+    close: () => channel.close()
+  };
+}
+
+// Storage events only carry strings, so values are dropped and keys are kept only when they
+// survive JSON. Receivers treat such changes as "something changed" and re-read.
+export function createStorageChannel(name: string): ChangeChannel {
+  let sequence = 0;
+
+  return {
+    postMessage: message => {
+      try {
+        window.localStorage.setItem(name, JSON.stringify({
+          message: { ...message, changeSet: stripChangeSet(message.changeSet) },
+          sequence: `${Date.now()}:${sequence++}:${Math.random()}`
+        }));
+      } catch (error) {
+        console.error('Error broadcasting changes:', error);
+      }
+    },
+    subscribe: listener => {
+      const handler = (event: StorageEvent) => {
+        if (event.key !== name || !event.newValue) return;
+        try {
+          listener(JSON.parse(event.newValue).message);
+        } catch (error) {
+          console.error('Error reading broadcast changes:', error);
+        }
+      };
+      window.addEventListener('storage', handler);
+      return () => window.removeEventListener('storage', handler);
+    },
+    close: () => undefined
+  };
+}
+
+function stripChangeSet(changeSet: ChangeSet): ChangeSet {
+  return {
+    storeName: changeSet.storeName,
+    changes: changeSet.changes.map(change =>
+      typeof change.key === 'string' || (typeof change.key === 'number' && Number.isFinite(change.key))
+        ? { type: change.type, key: change.key }
+        : { type: change.type }
+    )
+  };
+}
+
+export class MemoryChannelHub {
+  private listeners: Map<string, Set<(message: ChangeMessage) => void>> = new Map();
+
+  createChannel = (name: string): ChangeChannel => {
+    const own = new Set<(message: ChangeMessage) => void>();
+
+    return {
+      postMessage: message => {
+        this.listeners.get(name)?.forEach(listener => {
+          if (!own.has(listener)) {
+            setTimeout(() => listener(message), 0);
+          }
+        });
+      },
+      subscribe: listener => {
+        if (!this.listeners.has(name)) {
+          this.listeners.set(name, new Set());
+        }
+        this.listeners.get(name)!.add(listener);
+        own.add(listener);
+        return () => {
+          this.listeners.get(name)?.delete(listener);
+          own.delete(listener);
+        };
+      },
+      close: () => {
+        own.forEach(listener => this.listeners.get(name)?.delete(listener));
+        own.clear();
+      }
+    };
+  };
+}
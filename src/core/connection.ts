@@ -0,0 +1,41 @@
+import { ConnectionPolicy } from '../types';
+import { ConnectionError } from './errors';
+
+export const DEFAULT_CONNECTION_POLICY: Required<ConnectionPolicy> = {
+  timeout: 10000,
+  retries: 3,
+  retryDelay: 100,
+  backoffFactor: 2
+};
+
+export function resolveConnectionPolicy(policy: ConnectionPolicy = {}): Required<ConnectionPolicy> {
+  return { ...DEFAULT_CONNECTION_POLICY, ...policy };
+}
+
+export function getRetryDelay(policy: Required<ConnectionPolicy>, attempt: number): number {
+  return policy.retryDelay * Math.pow(policy.backoffFactor, attempt);
+}
+
+export function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  if (!Number.isFinite(ms)) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new ConnectionError(message)), ms);
+    promise.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,217 @@
+import {
+  EncryptionConfig,
+  EncryptionKeys,
+  Middleware,
+  Operation,
+  QueryOptions,
+  StoreConfig
+} from '../types';
+import { getValueByKeyPath, setValueByKeyPath } from './keys';
+import { decodeValue, Encoded, encodeValue } from './transfer';
+
+export const ENCRYPTED_FIELD = '__encrypted';
+
+type QueryOperation = Extract<Operation, { type: 'find' | 'keys' | 'count' | 'delete' }>;
+
+interface EncryptedPayload {
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+// Encrypted fields are moved out of the record into one AES-GCM payload bound to the store name.
+// Blind-indexed fields keep an HMAC of their value in place, so the store's indexes can still
+// match them by equality.
+export function createEncryptionMiddleware(
+  getStoreConfig: (storeName: string) => StoreConfig | undefined,
+  keys: EncryptionKeys | undefined
+): Middleware {
+  const resolve = (storeName: string) => {
+    const encryption = getStoreConfig(storeName)?.encryption;
+    if (!encryption) return null;
+    if (!keys) {
+      throw new Error(`Store "${storeName}" is encrypted but no encryption key was provided`);
+    }
+    if (encryption.blindIndex?.length && !keys.blindIndexKey) {
+      throw new Error(`Store "${storeName}" has blind-indexed fields but no blindIndexKey was provided`);
+    }
+    return { encryption, keys };
+  };
+
+  const blindToken = async (key: CryptoKey, storeName: string, field: string, value: unknown) => {
+    const signature = await crypto.subtle.sign(
+      'HMAC',
+      key,
+      new TextEncoder().encode(`${storeName}\u0000${field}\u0000${JSON.stringify(value)}`)
+    );
+    return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
+  };
+
+  const encryptRecord = async (
+    storeName: string,
+    encryption: EncryptionConfig,
+    { key, blindIndexKey }: EncryptionKeys,
+    record: Record<string, unknown>
+  ) => {
+    const plain: Record<string, unknown> = {};
+    let stored = record;
+
+    for (const field of new Set([...encryption.fields, ...(encryption.blindIndex ?? [])])) {
+      const value = getValueByKeyPath(record, field);
+      if (value === undefined) continue;
+
+      plain[field] = value;
+      stored = setValueByKeyPath(
+        stored,
+        field,
+        encryption.blindIndex?.includes(field)
+          ? await blindToken(blindIndexKey!, storeName, field, value)
+          : undefined
+      );
+    }
+
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(storeName) },
+      key,
+      // The transfer encoding keeps dates, maps, sets and binary values intact, which JSON would not.
+      new TextEncoder().encode(JSON.stringify(await encodeValue(plain)))
+    );
+    const payload: EncryptedPayload = { iv, data };
+    return { ...stored, [ENCRYPTED_FIELD]: payload };
+  };
+
+  const decryptRecord = async ({ key }: EncryptionKeys, storeName: string, stored: unknown) => {
+    if (stored === null || typeof stored !== 'object' || !(ENCRYPTED_FIELD in stored)) {
+      return stored;
+    }
+
+    const { [ENCRYPTED_FIELD]: payload, ...record } = stored as { [ENCRYPTED_FIELD]: EncryptedPayload };
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: payload.iv, additionalData: new TextEncoder().encode(storeName) },
+        key,
+        payload.data
+      );
+    } catch (error) {
+      throw new Error(`Failed to decrypt a record in store "${storeName}": ${(error as Error).message}`);
+    }
+
+    const plain = decodeValue(JSON.parse(new TextDecoder().decode(plaintext)) as Encoded) as Record<string, unknown>;
+    return Object.entries(plain).reduce(
+      (result, [field, value]) => setValueByKeyPath(result, field, value),
+      record
+    );
+  };
+
+  // Only exact matches survive hashing, so a blind index can answer `equals` and nothing else.
+  const translateQuery = async (
+    storeName: string,
+    encryption: EncryptionConfig,
+    { blindIndexKey }: EncryptionKeys,
+    options: QueryOptions
+  ): Promise<QueryOptions> => {
+    const indexConfig = getStoreConfig(storeName)?.indexes?.find(index => index.name === options.index);
+    const field = typeof indexConfig?.keyPath === 'string' ? indexConfig.keyPath : undefined;
+    if (!field || !encryption.blindIndex?.includes(field) || options.query === undefined) {
+      return options;
+    }
+
+    let value = options.query;
+    if (value instanceof IDBKeyRange) {
+      if (
+        value.lower === undefined || value.lowerOpen || value.upperOpen ||
+        indexedDB.cmp(value.lower, value.upper) !== 0
+      ) {
+        throw new Error(`Index "${options.index}" is blind-indexed and only supports equality lookups`);
+      }
+      value = value.lower;
+    }
+
+    return { ...options, query: await blindToken(blindIndexKey!, storeName, field, value) };
+  };
+
+  // Filters (including `where` on an unindexed field) and in-memory sorting would see ciphertext
+  // inside the cursor, so reads hold them back until the records are decrypted.
+  const deferFiltering = (
+    storeName: string,
+    encryption: EncryptionConfig,
+    operation: QueryOperation
+  ): QueryOperation => {
+    if (!operation.options) return operation;
+
+    const { filter, orderBy } = operation.options;
+    const sortKeys = orderBy === undefined ? [] : Array.isArray(orderBy) ? orderBy : [orderBy];
+    const encrypted = sortKeys.find(field => encryption.fields.includes(field));
+    if (encrypted) {
+      throw new Error(`Cannot order store "${storeName}" by encrypted field "${encrypted}"`);
+    }
+    if (!filter) return operation;
+
+    const options = { ...operation.options, filter: undefined, offset: undefined, limit: undefined };
+    switch (operation.type) {
+      case 'find':
+        return { ...operation, options };
+      case 'count':
+        return { type: 'find', store: operation.store, options };
+      default:
+        throw new Error(
+          `${operation.type}() on encrypted store "${storeName}" cannot use filter() or where() on an unindexed field`
+        );
+    }
+  };
+
+  const applyFiltering = (records: unknown[], { filter, offset = 0, limit }: QueryOptions): unknown[] => {
+    const matches = records.filter(record => filter!(record));
+    return matches.slice(offset, limit === undefined ? undefined : offset + limit);
+  };
+
+  return {
+    name: 'encryption',
+    beforeOperation: async (operation, { storeName, transaction }) => {
+      const resolved = resolve(storeName);
+      if (!resolved) return;
+      if (transaction) {
+        throw new Error(
+          `Store "${storeName}" is encrypted and cannot be used inside transaction() callbacks or modify()`
+        );
+      }
+
+      const { encryption, keys } = resolved;
+      switch (operation.type) {
+        case 'add':
+        case 'put':
+          return { ...operation, data: await encryptRecord(storeName, encryption, keys, operation.data) };
+        case 'find':
+        case 'keys':
+        case 'count':
+        case 'delete': {
+          if (!operation.options) return undefined;
+          const deferred = deferFiltering(storeName, encryption, operation);
+          return { ...deferred, options: await translateQuery(storeName, encryption, keys, deferred.options!) };
+        }
+        default:
+          return undefined;
+      }
+    },
+    afterOperation: async (result, operation, { storeName }) => {
+      const resolved = resolve(storeName);
+      if (!resolved) return result;
+
+      if (operation.type === 'get') {
+        return decryptRecord(resolved.keys, storeName, result);
+      }
+      const options = 'options' in operation ? operation.options : undefined;
+      const filtered = (operation.type === 'find' || operation.type === 'count') && options?.filter;
+      if (operation.type === 'getAll' || operation.type === 'find' || filtered) {
+        const records = await Promise.all(
+          (result as unknown[]).map(record => decryptRecord(resolved.keys, storeName, record))
+        );
+        if (!filtered) return records;
+        const matches = applyFiltering(records, options!);
+        return operation.type === 'count' ? matches.length : matches;
+      }
+      return result;
+    }
+  };
+}
@@ -0,0 +1,70 @@
+import { BulkFailure, OperationResult, SchemaDifference, ValidationIssue } from '../types';
+
+export class SchemaMismatchError extends Error {
+  readonly differences: SchemaDifference[];
+
+  constructor(databaseName: string, differences: SchemaDifference[]) {
+    super(
+      `Schema mismatch in database "${databaseName}": ` +
+      differences.map(difference => difference.message).join('; ')
+    );
+    this.name = 'SchemaMismatchError';
+    this.differences = differences;
+  }
+}
+
+export class TransactionError extends Error {
+  readonly results: OperationResult[];
+
+  constructor(message: string, results: OperationResult[]) {
+    super(message);
+    this.name = 'TransactionError';
+    this.results = results;
+  }
+}
+
+export class BulkError<R = unknown> extends Error {
+  readonly committed: number;
+  readonly results: Array<R | undefined>;
+  readonly failures: BulkFailure[];
+
+  constructor(committed: number, results: Array<R | undefined>, failures: BulkFailure[]) {
+    const [first] = failures;
+    super(
+      `Bulk operation failed at index ${first.index}: ${first.error.message}. ` +
+      `${committed} record(s) committed before the failure were kept`
+    );
+    this.name = 'BulkError';
+    this.committed = committed;
+    this.results = results;
+    this.failures = failures;
+  }
+}
+
+export class ConnectionError extends Error {
+  readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = 'ConnectionError';
+    this.cause = cause;
+  }
+}
+
+export class ValidationError extends Error {
+  readonly storeName: string;
+  readonly issues: ValidationIssue[];
+  readonly path: Array<string | number>;
+
+  constructor(storeName: string, issues: ValidationIssue[]) {
+    super(
+      `Invalid record for store "${storeName}": ` +
+      issues.map(issue => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+        .join('; ')
+    );
+    this.name = 'ValidationError';
+    this.storeName = storeName;
+    this.issues = issues;
+    this.path = issues[0]?.path ?? [];
+  }
+}
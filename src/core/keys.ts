@@ -0,0 +1,67 @@
+export function getValueByKeyPath(value: unknown, keyPath: string | string[]): unknown {
+  if (Array.isArray(keyPath)) {
+    return keyPath.map(path => getValueByKeyPath(value, path));
+  }
+
+  if (keyPath === '') {
+    return value;
+  }
+
+  return keyPath.split('.').reduce<unknown>(
+    (current, segment) => (current == null ? undefined : (current as Record<string, unknown>)[segment]),
+    value
+  );
+}
+
+// Returns a copy of `value` with the field at `keyPath` replaced, or removed when `fieldValue` is
+// undefined. Objects along the path are copied; the rest is shared with the original.
+export function setValueByKeyPath<T>(value: T, keyPath: string, fieldValue: unknown): T {
+  const result: Record<string, unknown> = { ...(value as object) };
+  const segments = keyPath.split('.');
+  let target = result;
+  segments.slice(0, -1).forEach(segment => {
+    const copy: Record<string, unknown> = { ...(target[segment] as object) };
+    target[segment] = copy;
+    target = copy;
+  });
+
+  const last = segments[segments.length - 1];
+  if (fieldValue === undefined) {
+    delete target[last];
+  } else {
+    target[last] = fieldValue;
+  }
+  return result as T;
+}
+
+export function isValidKey(key: unknown): key is IDBValidKey {
+  try {
+    indexedDB.cmp(key, key);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function compareKeys(a: unknown, b: unknown): number {
+  const aValid = isValidKey(a);
+  const bValid = isValidKey(b);
+
+  if (aValid && bValid) {
+    return indexedDB.cmp(a, b);
+  }
+  if (aValid === bValid) {
+    return 0;
+  }
+  return aValid ? -1 : 1;
+}
+
+export function rangeIncludes(range: IDBKeyRange | IDBValidKey, key: unknown): boolean {
+  if (!isValidKey(key)) {
+    return false;
+  }
+  if (range instanceof IDBKeyRange) {
+    return range.includes(key);
+  }
+  return indexedDB.cmp(range, key) === 0;
+}
@@ -0,0 +1,80 @@
+import { ChangeSet, Middleware, MiddlewareContext, Operation } from '../types';
+import { RecordValidation } from './validation';
+
+export interface PreparedOperation {
+  original: Operation;
+  operation: Operation;
+  entered: Array<{ middleware: Middleware; operation: Operation }>;
+  shortCircuit?: { result: unknown };
+}
+
+// Validation guards the application's view of a record: writes are checked before middleware
+// rewrites them, and reads after middleware has transformed the stored value back.
+export class OperationPipeline {
+  private middleware: Middleware[];
+
+  // `innermost` middleware always runs closest to the store, after everything registered with use().
+  constructor(
+    middleware: Middleware[],
+    private readonly validation: RecordValidation,
+    private readonly innermost: Middleware[] = []
+  ) {
+    this.middleware = [...middleware];
+  }
+
+  use(middleware: Middleware): () => void {
+    this.middleware.push(middleware);
+    return () => {
+      this.middleware = this.middleware.filter(existing => existing !== middleware);
+    };
+  }
+
+  async prepare(operation: Operation, context: MiddlewareContext): Promise<PreparedOperation> {
+    this.validation.checkWrite(context.storeName, operation);
+
+    const prepared: PreparedOperation = { original: operation, operation, entered: [] };
+    for (const middleware of [...this.middleware, ...this.innermost]) {
+      const action = await middleware.beforeOperation?.(prepared.operation, context);
+      if (action && !('type' in action)) {
+        prepared.shortCircuit = { result: action.result };
+        return prepared;
+      }
+      prepared.entered.push({ middleware, operation: prepared.operation });
+      if (action) {
+        prepared.operation = action;
+      }
+    }
+    return prepared;
+  }
+
+  // Each middleware sees the result together with the operation it was handed, innermost first.
+  async complete(prepared: PreparedOperation, result: unknown, context: MiddlewareContext): Promise<unknown> {
+    let value = result;
+    for (const { middleware, operation } of [...prepared.entered].reverse()) {
+      if (middleware.afterOperation) {
+        value = await middleware.afterOperation(value, operation, context);
+      }
+    }
+    return this.validation.checkRead(context.storeName, prepared.original, value);
+  }
+
+  // Change values are what was stored, so they are passed back through the middleware as if they
+  // had been read with `get`, giving subscribers the same view of a record as every other read.
+  async presentChanges(changeSet: ChangeSet): Promise<ChangeSet> {
+    const middleware = [...this.middleware, ...this.innermost].filter(entry => entry.afterOperation).reverse();
+    if (middleware.length === 0) return changeSet;
+
+    const context: MiddlewareContext = { storeName: changeSet.storeName, mode: 'readonly' };
+    const changes = await Promise.all(changeSet.changes.map(async change => {
+      if (change.value === undefined) return change;
+
+      const operation: Operation = { type: 'get', key: change.key!, store: changeSet.storeName };
+      let value: unknown = change.value;
+      for (const entry of middleware) {
+        value = await entry.afterOperation!(value, operation, context);
+      }
+      return { ...change, value };
+    }));
+    return { ...changeSet, changes };
+  }
+}
@@ -0,0 +1,141 @@
+import { Migration, MigrationContext } from '../types';
+import { createIndex, createObjectStore } from './schema';
+
+export function getPendingMigrations(
+  migrations: Migration[] = [],
+  oldVersion: number,
+  newVersion: number
+): Migration[] {
+  const versions = new Set<number>();
+
+  migrations.forEach(migration => {
+    if (versions.has(migration.version)) {
+      throw new Error(`Duplicate migration for version ${migration.version}`);
+    }
+    versions.add(migration.version);
+  });
+
+  return migrations
+    .filter(migration => migration.version > oldVersion && migration.version <= newVersion)
+    .sort((a, b) => a.version - b.version);
+}
+
+export async function runMigrations(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  migrations: Migration[] | undefined,
+  oldVersion: number,
+  newVersion: number
+): Promise<void> {
+  const pending = getPendingMigrations(migrations, oldVersion, newVersion);
+  const context = createMigrationContext(db, transaction, oldVersion, newVersion);
+
+  for (const migration of pending) {
+    try {
+      await migration.migrate(context);
+    } catch (error) {
+      throw new Error(
+        `Migration to version ${migration.version} failed: ${(error as Error)?.message ?? error}`
+      );
+    }
+  }
+}
+
+function createMigrationContext(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  newVersion: number
+): MigrationContext {
+  return {
+    db,
+    transaction,
+    oldVersion,
+    newVersion,
+
+    createStore: (storeConfig) => {
+      if (db.objectStoreNames.contains(storeConfig.name)) {
+        return transaction.objectStore(storeConfig.name);
+      }
+      return createObjectStore(db, storeConfig);
+    },
+
+    deleteStore: (storeName) => {
+      if (db.objectStoreNames.contains(storeName)) {
+        db.deleteObjectStore(storeName);
+      }
+    },
+
+    createIndex: (storeName, index) => {
+      const store = transaction.objectStore(storeName);
+      if (store.indexNames.contains(index.name)) {
+        return store.index(index.name);
+      }
+      return createIndex(store, index);
+    },
+
+    deleteIndex: (storeName, indexName) => {
+      const store = transaction.objectStore(storeName);
+      if (store.indexNames.contains(indexName)) {
+        store.deleteIndex(indexName);
+      }
+    },
+
+    updateRecords: (storeName, updater) => {
+      if (!db.objectStoreNames.contains(storeName)) {
+        return Promise.resolve(0);
+      }
+
+      let updated = 0;
+      return walkCursor(transaction.objectStore(storeName), cursor => {
+        const next = updater(cursor.value, cursor.primaryKey);
+        if (next !== undefined) {
+          cursor.update(next);
+          updated++;
+        }
+      }).then(() => updated);
+    },
+
+    deleteRecords: (storeName, predicate) => {
+      if (!db.objectStoreNames.contains(storeName)) {
+        return Promise.resolve(0);
+      }
+
+      let deleted = 0;
+      return walkCursor(transaction.objectStore(storeName), cursor => {
+        if (predicate(cursor.value, cursor.primaryKey)) {
+          cursor.delete();
+          deleted++;
+        }
+      }).then(() => deleted);
+    }
+  };
+}
+
+function walkCursor(
+  store: IDBObjectStore,
+  visit: (cursor: IDBCursorWithValue) => void
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const request = store.openCursor();
+
+    request.onerror = () => {
+      reject(request.error);
+    };
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+
+      try {
+        visit(cursor);
+        cursor.continue();
+      } catch (error) {
+        reject(error);
+      }
+    };
+  });
+}
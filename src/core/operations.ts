@@ -0,0 +1,147 @@
+import { Operation, StoreChange, Transaction } from '../types';
+import { ChangeRecorder, withPrimaryKey } from './changes';
+import { getValueByKeyPath, isValidKey } from './keys';
+import {
+  runCountQuery,
+  runDeleteQuery,
+  runKeysQuery,
+  runQuery,
+  RequestErrorHandler
+} from './query';
+
+export function getTransactionStores(transaction: Transaction): string[] {
+  const storeNames = Array.isArray(transaction.store) ? transaction.store : [transaction.store];
+  if (storeNames.length === 0) {
+    throw new Error('Transaction must name at least one store');
+  }
+  return storeNames;
+}
+
+export function resolveOperationStore(operation: Operation, storeNames: string[]): string {
+  if (operation.store === undefined) {
+    if (storeNames.length > 1) {
+      throw new Error(
+        `Operation "${operation.type}" must name its store in a transaction over ${storeNames.join(', ')}`
+      );
+    }
+    return storeNames[0];
+  }
+
+  if (!storeNames.includes(operation.store)) {
+    throw new Error(`Store "${operation.store}" is not part of this transaction`);
+  }
+  return operation.store;
+}
+
+export function runOperation(
+  store: IDBObjectStore,
+  operation: Operation,
+  recorder: ChangeRecorder,
+  onSuccess: (result: unknown) => void,
+  onError: RequestErrorHandler
+): void {
+  const record = (change: StoreChange) => recorder.record(store.name, change, store.transaction);
+
+  switch (operation.type) {
+    case 'add': {
+      const request = store.add(operation.data, operation.key as IDBValidKey | undefined);
+      request.onsuccess = () => {
+        record({
+          type: 'add',
+          key: request.result,
+          value: withPrimaryKey(operation.data, store.keyPath, request.result)
+        });
+        onSuccess(request.result);
+      };
+      request.onerror = () => onError(request.error);
+      return;
+    }
+
+    case 'put': {
+      const key = operation.key ?? (
+        store.keyPath === null ? undefined : getValueByKeyPath(operation.data, store.keyPath)
+      );
+      let existed = false;
+      if (isValidKey(key)) {
+        const countRequest = store.count(key);
+        countRequest.onsuccess = () => {
+          existed = countRequest.result > 0;
+        };
+      }
+
+      const request = store.put(operation.data, operation.key as IDBValidKey | undefined);
+      request.onsuccess = () => {
+        record({
+          type: existed ? 'update' : 'add',
+          key: request.result,
+          value: withPrimaryKey(operation.data, store.keyPath, request.result)
+        });
+        onSuccess(request.result);
+      };
+      request.onerror = () => onError(request.error);
+      return;
+    }
+
+    case 'delete': {
+      if (operation.options) {
+        runDeleteQuery(store, operation.options, record, onSuccess, onError);
+        return;
+      }
+
+      const keysRequest = store.getAllKeys(operation.key);
+      const request = store.delete(operation.key!);
+      request.onsuccess = () => {
+        keysRequest.result.forEach(key => record({ type: 'delete', key }));
+        onSuccess(request.result);
+      };
+      request.onerror = () => onError(request.error);
+      return;
+    }
+
+    case 'clear': {
+      const request = store.clear();
+      request.onsuccess = () => {
+        record({ type: 'clear' });
+        onSuccess(request.result);
+      };
+      request.onerror = () => onError(request.error);
+      return;
+    }
+
+    case 'get': {
+      const request = store.get(operation.key!);
+      request.onsuccess = () => onSuccess(request.result);
+      request.onerror = () => onError(request.error);
+      return;
+    }
+
+    case 'getAll': {
+      const request = store.getAll(operation.query, operation.data as number);
+      request.onsuccess = () => onSuccess(request.result);
+      request.onerror = () => onError(request.error);
+      return;
+    }
+
+    case 'count': {
+      if (operation.options) {
+        runCountQuery(store, operation.options, onSuccess, onError);
+        return;
+      }
+      const request = store.count(operation.query);
+      request.onsuccess = () => onSuccess(request.result);
+      request.onerror = () => onError(request.error);
+      return;
+    }
+
+    case 'find':
+      runQuery(store, operation.options ?? {}, onSuccess, onError);
+      return;
+
+    case 'keys':
+      runKeysQuery(store, operation.options ?? {}, onSuccess, onError);
+      return;
+
+    default:
+      throw new Error(`Unknown operation type: ${(operation as { type: string }).type}`);
+  }
+}
@@ -0,0 +1,143 @@
+import { ChangeSet, QueryPosition, StoreConfig, Transaction } from '../types';
+import { getValueByKeyPath, isValidKey, rangeIncludes } from './keys';
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+export interface PageQuery<I extends string = string> {
+  index?: I;
+  query?: IDBKeyRange | IDBValidKey;
+  direction?: 'next' | 'prev';
+}
+
+export interface Page<T> {
+  items: T[];
+  hasMore: boolean;
+  endCursor: QueryPosition | null;
+}
+
+type TransactionExecutor = <R extends unknown[] = unknown[]>(transaction: Transaction) => Promise<R>;
+
+// Pages are addressed by the position of their last record, which needs the primary key and the
+// index key to be readable from the record itself.
+function resolveKeyPaths(storeConfig: StoreConfig | undefined, pageQuery: PageQuery) {
+  const storeName = storeConfig?.name ?? 'unknown';
+  if (!storeConfig?.keyPath) {
+    throw new Error(`Pagination needs store "${storeName}" to have an in-line keyPath`);
+  }
+  if (!pageQuery.index) {
+    return { primaryKeyPath: storeConfig.keyPath, indexKeyPath: storeConfig.keyPath };
+  }
+
+  const index = storeConfig.indexes?.find(indexConfig => indexConfig.name === pageQuery.index);
+  if (!index) {
+    throw new Error(`Index "${pageQuery.index}" is not declared on store "${storeName}"`);
+  }
+  if (index.multiEntry) {
+    throw new Error(`Pagination does not support multiEntry index "${index.name}"`);
+  }
+  return { primaryKeyPath: storeConfig.keyPath, indexKeyPath: index.keyPath };
+}
+
+export function positionOf<T>(
+  record: T,
+  storeConfig: StoreConfig | undefined,
+  pageQuery: PageQuery
+): QueryPosition {
+  const { primaryKeyPath, indexKeyPath } = resolveKeyPaths(storeConfig, pageQuery);
+  return {
+    key: getValueByKeyPath(record, indexKeyPath) as IDBValidKey,
+    primaryKey: getValueByKeyPath(record, primaryKeyPath) as IDBValidKey
+  };
+}
+
+// Orders positions the way the scan visits them.
+export function comparePositions(a: QueryPosition, b: QueryPosition, direction: PageQuery['direction']): number {
+  const order = indexedDB.cmp(a.key, b.key) || indexedDB.cmp(a.primaryKey, b.primaryKey);
+  return direction === 'prev' ? -order : order;
+}
+
+export async function fetchPage<T>(
+  execute: TransactionExecutor,
+  storeConfig: StoreConfig | undefined,
+  pageQuery: PageQuery,
+  pageSize: number,
+  after: QueryPosition | null
+): Promise<Page<T>> {
+  resolveKeyPaths(storeConfig, pageQuery);
+
+  // One extra record tells whether another page follows.
+  const [records] = await execute<[T[]]>({
+    store: storeConfig!.name,
+    mode: 'readonly',
+    operations: [{
+      type: 'find',
+      options: {
+        index: pageQuery.index,
+        query: pageQuery.query,
+        direction: pageQuery.direction ?? 'next',
+        limit: pageSize + 1,
+        after: after ?? undefined
+      }
+    }]
+  });
+
+  const items = records.slice(0, pageSize);
+  return {
+    items,
+    hasMore: records.length > pageSize,
+    endCursor: items.length > 0 ? positionOf(items[items.length - 1], storeConfig, pageQuery) : after
+  };
+}
+
+// Applies a change set to the records loaded so far. Records are kept when they fall inside the
+// loaded window, which ends at `endCursor` unless there are no more pages. Returns null when the
+// change cannot be placed and the window has to be reloaded.
+export function applyPageChanges<T>(
+  records: T[],
+  changeSet: ChangeSet<T>,
+  storeConfig: StoreConfig | undefined,
+  pageQuery: PageQuery,
+  window: { endCursor: QueryPosition | null; hasMore: boolean }
+): T[] | null {
+  const { primaryKeyPath } = resolveKeyPaths(storeConfig, pageQuery);
+  let next = [...records];
+  const indexOfKey = (key: IDBValidKey) =>
+    next.findIndex(record => indexedDB.cmp(getValueByKeyPath(record, primaryKeyPath), key) === 0);
+
+  for (const change of changeSet.changes) {
+    if (change.type === 'clear') {
+      next = [];
+      continue;
+    }
+    if (change.key === undefined) {
+      return null;
+    }
+
+    const existing = indexOfKey(change.key);
+    if (existing !== -1) {
+      next.splice(existing, 1);
+    }
+    if (change.type === 'delete') {
+      continue;
+    }
+    if (change.value === undefined) {
+      return null;
+    }
+
+    const position = positionOf(change.value, storeConfig, pageQuery);
+    const matches = isValidKey(position.key) &&
+      (pageQuery.query === undefined || rangeIncludes(pageQuery.query, position.key));
+    const inWindow = !window.hasMore || window.endCursor === null ||
+      comparePositions(position, window.endCursor, pageQuery.direction) <= 0;
+    if (!matches || !inWindow) {
+      continue;
+    }
+
+    const insertAt = next.findIndex(record =>
+      comparePositions(position, positionOf(record, storeConfig, pageQuery), pageQuery.direction) < 0
+    );
+    next.splice(insertAt === -1 ? next.length : insertAt, 0, change.value);
+  }
+
+  return next;
+}
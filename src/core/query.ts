@@ -0,0 +1,226 @@
+import { QueryOptions, QueryPosition, StoreChange } from '../types';
+import { compareKeys, getValueByKeyPath } from './keys';
+
+export interface QueryMatch<T = unknown> {
+  primaryKey: IDBValidKey;
+  value: T;
+}
+
+export type RequestErrorHandler = (error: DOMException | null) => void;
+
+export function getQuerySource(
+  store: IDBObjectStore,
+  options: QueryOptions
+): IDBObjectStore | IDBIndex {
+  return options.index ? store.index(options.index) : store;
+}
+
+function isPlainScan(options: QueryOptions): boolean {
+  return !options.filter &&
+    options.orderBy === undefined &&
+    options.after === undefined &&
+    (options.direction ?? 'next') === 'next' &&
+    (options.offset ?? 0) === 0;
+}
+
+export function runQuery<T = unknown>(
+  store: IDBObjectStore,
+  options: QueryOptions<T>,
+  onComplete: (values: T[]) => void,
+  onError: RequestErrorHandler
+): void {
+  if (options.limit === 0) {
+    onComplete([]);
+    return;
+  }
+
+  if (isPlainScan(options)) {
+    const request = getQuerySource(store, options).getAll(options.query, options.limit);
+    request.onsuccess = () => {
+      onComplete(request.result);
+    };
+    request.onerror = () => onError(request.error);
+    return;
+  }
+
+  collectMatches<T>(store, options, matches => {
+    onComplete(matches.map(match => match.value));
+  }, onError);
+}
+
+export function runKeysQuery(
+  store: IDBObjectStore,
+  options: QueryOptions,
+  onComplete: (keys: IDBValidKey[]) => void,
+  onError: RequestErrorHandler
+): void {
+  if (options.limit === 0) {
+    onComplete([]);
+    return;
+  }
+
+  if (isPlainScan(options)) {
+    const request = getQuerySource(store, options).getAllKeys(options.query, options.limit);
+    request.onsuccess = () => {
+      onComplete(request.result);
+    };
+    request.onerror = () => onError(request.error);
+    return;
+  }
+
+  collectMatches(store, options, matches => {
+    onComplete(matches.map(match => match.primaryKey));
+  }, onError);
+}
+
+export function runCountQuery(
+  store: IDBObjectStore,
+  options: QueryOptions,
+  onComplete: (count: number) => void,
+  onError: RequestErrorHandler
+): void {
+  if (options.filter || options.after) {
+    collectMatches(store, { ...options, orderBy: undefined }, matches => {
+      onComplete(matches.length);
+    }, onError);
+    return;
+  }
+
+  const request = getQuerySource(store, options).count(options.query);
+  request.onsuccess = () => {
+    const available = Math.max(0, request.result - (options.offset ?? 0));
+    onComplete(options.limit === undefined ? available : Math.min(available, options.limit));
+  };
+  request.onerror = () => onError(request.error);
+}
+
+export function runDeleteQuery(
+  store: IDBObjectStore,
+  options: QueryOptions,
+  onChange: (change: StoreChange) => void,
+  onComplete: (deleted: number) => void,
+  onError: RequestErrorHandler
+): void {
+  collectMatches(store, options, matches => {
+    matches.forEach(({ primaryKey }) => {
+      const request = store.delete(primaryKey);
+      request.onerror = () => onError(request.error);
+      onChange({ type: 'delete', key: primaryKey });
+    });
+    onComplete(matches.length);
+  }, onError);
+}
+
+export function collectMatches<T = unknown>(
+  store: IDBObjectStore,
+  options: QueryOptions<T>,
+  onComplete: (matches: QueryMatch<T>[]) => void,
+  onError: RequestErrorHandler
+): void {
+  const { query, filter, orderBy, limit, after } = options;
+  const offset = options.offset ?? 0;
+  const direction = options.direction ?? 'next';
+  const sortInMemory = orderBy !== undefined;
+  const matches: QueryMatch<T>[] = [];
+
+  if (limit === 0) {
+    onComplete(matches);
+    return;
+  }
+  if (after && sortInMemory) {
+    throw new Error('Keyset pagination (after) cannot be combined with orderBy');
+  }
+
+  const cursorDirection = sortInMemory
+    ? (direction.endsWith('unique') ? 'nextunique' : 'next')
+    : direction;
+  let skipped = 0;
+  let advanced = sortInMemory || Boolean(filter) || offset === 0;
+  let seeking = after !== undefined;
+  let sought = false;
+  const request = getQuerySource(store, options).openCursor(query, cursorDirection);
+
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) {
+      onComplete(sortInMemory ? sortMatches(matches, orderBy!, direction, offset, limit) : matches);
+      return;
+    }
+
+    if (seeking) {
+      if (!isPast(cursor, after!, direction)) {
+        if (!sought) {
+          sought = true;
+          seek(cursor, Boolean(options.index), after!, direction);
+        } else {
+          cursor.continue();
+        }
+        return;
+      }
+      seeking = false;
+    }
+
+    if (!advanced) {
+      advanced = true;
+      cursor.advance(offset);
+      return;
+    }
+
+    const value: T = cursor.value;
+    if (!filter || filter(value)) {
+      if (!sortInMemory && filter && skipped < offset) {
+        skipped++;
+      } else {
+        matches.push({ primaryKey: cursor.primaryKey, value });
+        if (!sortInMemory && limit !== undefined && matches.length >= limit) {
+          onComplete(matches);
+          return;
+        }
+      }
+    }
+
+    cursor.continue();
+  };
+  request.onerror = () => onError(request.error);
+}
+
+function isPast(cursor: IDBCursor, position: QueryPosition, direction: IDBCursorDirection): boolean {
+  const order = indexedDB.cmp(cursor.key, position.key) ||
+    (direction.endsWith('unique') ? 0 : indexedDB.cmp(cursor.primaryKey, position.primaryKey));
+  return direction.startsWith('prev') ? order < 0 : order > 0;
+}
+
+// Jumps to the position itself, or as near as the cursor allows; records that are not yet past it
+// are skipped one by one afterwards.
+function seek(
+  cursor: IDBCursor,
+  isIndex: boolean,
+  position: QueryPosition,
+  direction: IDBCursorDirection
+): void {
+  const sameKey = indexedDB.cmp(cursor.key, position.key) === 0;
+  if (isIndex && !direction.endsWith('unique') &&
+    !(sameKey && indexedDB.cmp(cursor.primaryKey, position.primaryKey) === 0)) {
+    cursor.continuePrimaryKey(position.key, position.primaryKey);
+  } else if (!sameKey) {
+    cursor.continue(position.key);
+  } else {
+    cursor.continue();
+  }
+}
+
+function sortMatches<T>(
+  matches: QueryMatch<T>[],
+  orderBy: string | string[],
+  direction: IDBCursorDirection,
+  offset: number,
+  limit?: number
+): QueryMatch<T>[] {
+  const sign = direction.startsWith('prev') ? -1 : 1;
+  const sorted = [...matches].sort((a, b) =>
+    sign * compareKeys(getValueByKeyPath(a.value, orderBy), getValueByKeyPath(b.value, orderBy)) ||
+    compareKeys(a.primaryKey, b.primaryKey)
+  );
+
+  return sorted.slice(offset, limit === undefined ? undefined : offset + limit);
+}
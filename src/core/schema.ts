@@ -0,0 +1,134 @@
+import { IndexConfig, SchemaDifference, StoreConfig } from '../types';
+
+export function createObjectStore(db: IDBDatabase, storeConfig: StoreConfig): IDBObjectStore {
+  const store = db.createObjectStore(storeConfig.name, {
+    keyPath: storeConfig.keyPath,
+    autoIncrement: storeConfig.autoIncrement
+  });
+
+  storeConfig.indexes?.forEach(index => createIndex(store, index));
+
+  return store;
+}
+
+export function createIndex(store: IDBObjectStore, index: IndexConfig): IDBIndex {
+  return store.createIndex(index.name, index.keyPath, {
+    unique: index.unique,
+    multiEntry: index.multiEntry
+  });
+}
+
+export function diffSchema(db: IDBDatabase, stores: StoreConfig[]): SchemaDifference[] {
+  const differences: SchemaDifference[] = [];
+  const existing = stores.filter(storeConfig => {
+    if (db.objectStoreNames.contains(storeConfig.name)) {
+      return true;
+    }
+    differences.push({
+      type: 'missingStore',
+      store: storeConfig.name,
+      message: `store "${storeConfig.name}" does not exist`
+    });
+    return false;
+  });
+
+  if (existing.length > 0) {
+    const transaction = db.transaction(existing.map(storeConfig => storeConfig.name), 'readonly');
+    existing.forEach(storeConfig => {
+      differences.push(...diffStore(transaction.objectStore(storeConfig.name), storeConfig));
+    });
+  }
+
+  return differences;
+}
+
+export function diffStore(store: IDBObjectStore, storeConfig: StoreConfig): SchemaDifference[] {
+  const differences: SchemaDifference[] = [];
+  const declaredIndexes = storeConfig.indexes ?? [];
+
+  if (!sameKeyPath(store.keyPath, storeConfig.keyPath ?? null)) {
+    differences.push({
+      type: 'keyPathMismatch',
+      store: store.name,
+      message: `store "${store.name}" has keyPath ${JSON.stringify(store.keyPath)}, ` +
+        `expected ${JSON.stringify(storeConfig.keyPath ?? null)}`
+    });
+  }
+
+  if (store.autoIncrement !== Boolean(storeConfig.autoIncrement)) {
+    differences.push({
+      type: 'autoIncrementMismatch',
+      store: store.name,
+      message: `store "${store.name}" has autoIncrement ${store.autoIncrement}, ` +
+        `expected ${Boolean(storeConfig.autoIncrement)}`
+    });
+  }
+
+  declaredIndexes.forEach(indexConfig => {
+    if (!store.indexNames.contains(indexConfig.name)) {
+      differences.push({
+        type: 'missingIndex',
+        store: store.name,
+        index: indexConfig.name,
+        message: `index "${store.name}.${indexConfig.name}" does not exist`
+      });
+      return;
+    }
+
+    const index = store.index(indexConfig.name);
+    if (
+      !sameKeyPath(index.keyPath, indexConfig.keyPath) ||
+      index.unique !== Boolean(indexConfig.unique) ||
+      index.multiEntry !== Boolean(indexConfig.multiEntry)
+    ) {
+      differences.push({
+        type: 'indexMismatch',
+        store: store.name,
+        index: indexConfig.name,
+        message: `index "${store.name}.${indexConfig.name}" differs from its declaration`
+      });
+    }
+  });
+
+  Array.from(store.indexNames).forEach(indexName => {
+    if (!declaredIndexes.some(indexConfig => indexConfig.name === indexName)) {
+      differences.push({
+        type: 'extraIndex',
+        store: store.name,
+        index: indexName,
+        message: `index "${store.name}.${indexName}" is not declared`
+      });
+    }
+  });
+
+  return differences;
+}
+
+export function reconcileStore(store: IDBObjectStore, storeConfig: StoreConfig): SchemaDifference[] {
+  const unresolved: SchemaDifference[] = [];
+
+  diffStore(store, storeConfig).forEach(difference => {
+    const indexConfig = storeConfig.indexes?.find(index => index.name === difference.index);
+
+    switch (difference.type) {
+      case 'missingIndex':
+        createIndex(store, indexConfig!);
+        break;
+      case 'extraIndex':
+        store.deleteIndex(difference.index!);
+        break;
+      case 'indexMismatch':
+        store.deleteIndex(difference.index!);
+        createIndex(store, indexConfig!);
+        break;
+      default:
+        unresolved.push(difference);
+    }
+  });
+
+  return unresolved;
+}
+
+function sameKeyPath(actual: string | string[] | null, expected: string | string[] | null): boolean {
+  return JSON.stringify(actual) === JSON.stringify(expected);
+}
@@ -0,0 +1,139 @@
+import { Subscription } from '../types';
+
+type ResourceState =
+  | { status: 'pending'; promise: Promise<void> }
+  | { status: 'fulfilled'; value: unknown }
+  | { status: 'rejected'; error: unknown };
+
+interface Resource {
+  stores: string[];
+  load: () => Promise<unknown>;
+  state: ResourceState;
+  generation: number;
+  listeners: Set<() => void>;
+}
+
+function keyPart(value: unknown): unknown {
+  if (typeof IDBKeyRange !== 'undefined' && value instanceof IDBKeyRange) {
+    return {
+      lower: keyPart(value.lower),
+      upper: keyPart(value.upper),
+      lowerOpen: value.lowerOpen,
+      upperOpen: value.upperOpen
+    };
+  }
+  if (Array.isArray(value)) {
+    return value.map(keyPart);
+  }
+  if (value instanceof Date) {
+    return { date: value.getTime() };
+  }
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    const bytes = value instanceof ArrayBuffer
+      ? new Uint8Array(value)
+      : new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+    return { binary: Array.from(bytes) };
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([name, part]) => [name, keyPart(part)]));
+  }
+  return value;
+}
+
+// Resources are identified by what they read, so equal queries built on different renders share one.
+export function resourceKey(...parts: unknown[]): string {
+  return JSON.stringify(parts.map(keyPart));
+}
+
+// Holds data read for Suspense, outside of any component, so a suspended component finds its data
+// when it renders again. `read` throws the pending promise or the failure, as Suspense expects.
+export class SuspenseCache {
+  private resources: Map<string, Resource> = new Map();
+
+  read<R>(key: string, stores: string[], load: () => Promise<R>): R {
+    const resource = this.resources.get(key) ?? this.start(key, stores, load);
+    const { state } = resource;
+
+    if (state.status === 'pending') throw state.promise;
+    if (state.status === 'rejected') throw state.error;
+    return state.value as R;
+  }
+
+  // Called by components that rendered a resource, to re-render when it reloads. A resource that
+  // was dropped in the meantime is reported straight away, so the component reads it again.
+  subscribe(key: string, listener: () => void): Subscription {
+    const resource = this.resources.get(key);
+    if (!resource) {
+      listener();
+      return { unsubscribe: () => {} };
+    }
+
+    resource.listeners.add(listener);
+    return {
+      unsubscribe: () => {
+        resource.listeners.delete(listener);
+      }
+    };
+  }
+
+  // Resources on screen reload in the background and keep their value until the new one arrives.
+  // Anything else is dropped and loads again on its next read.
+  invalidate(storeName: string): void {
+    this.resources.forEach((resource, key) => {
+      if (!resource.stores.includes(storeName)) return;
+
+      if (resource.listeners.size === 0 || resource.state.status !== 'fulfilled') {
+        this.resources.delete(key);
+        resource.listeners.forEach(listener => listener());
+        return;
+      }
+      this.reload(resource);
+    });
+  }
+
+  // Failures stay cached so a retried render fails the same way; an error boundary resets them.
+  clearErrors(): void {
+    this.resources.forEach((resource, key) => {
+      if (resource.state.status === 'rejected') {
+        this.resources.delete(key);
+      }
+    });
+  }
+
+  clear(): void {
+    this.resources.clear();
+  }
+
+  private start(key: string, stores: string[], load: () => Promise<unknown>): Resource {
+    const resource: Resource = {
+      stores,
+      load,
+      state: { status: 'pending', promise: Promise.resolve() },
+      generation: 0,
+      listeners: new Set()
+    };
+    resource.state = { status: 'pending', promise: this.settle(resource) };
+    this.resources.set(key, resource);
+    return resource;
+  }
+
+  private reload(resource: Resource): void {
+    this.settle(resource).then(() => {
+      resource.listeners.forEach(listener => listener());
+    });
+  }
+
+  // Only the latest load of a resource may settle it.
+  private settle(resource: Resource): Promise<void> {
+    const generation = ++resource.generation;
+    return resource.load().then(value => {
+      if (generation === resource.generation) {
+        resource.state = { status: 'fulfilled', value };
+      }
+    }, error => {
+      if (generation === resource.generation) {
+        resource.state = { status: 'rejected', error };
+      }
+    });
+  }
+}
@@ -0,0 +1,521 @@
+import {
+  ChangeSet,
+  RemoteChange,
+  StoreConfig,
+  Subscription,
+  SyncConflict,
+  SyncMutation,
+  SyncOptions,
+  SyncPushOutcome,
+  SyncRevision,
+  SyncStatus,
+  SyncStatusListener
+} from '../types';
+import { ChangeJournal, ChangeRecorder, journalScope } from './changes';
+import { runOperation } from './operations';
+
+export const SYNC_OUTBOX_STORE = '__sync_outbox';
+export const SYNC_REVISIONS_STORE = '__sync_revisions';
+export const SYNC_STATE_STORE = '__sync_state';
+
+export const SYNC_STORES: StoreConfig[] = [
+  {
+    name: SYNC_OUTBOX_STORE,
+    keyPath: 'id',
+    autoIncrement: true,
+    indexes: [{ name: 'record', keyPath: ['store', 'key'] }]
+  },
+  { name: SYNC_REVISIONS_STORE },
+  { name: SYNC_STATE_STORE }
+];
+
+const DEFAULT_SYNC_BATCH_SIZE = 100;
+const CURSOR_KEY = 'cursor';
+
+export interface SyncHost {
+  ready: () => Promise<IDBDatabase>;
+  isConnected: () => boolean;
+  publish: (changeSets: ChangeSet[]) => Promise<void>;
+  // Every journal but the engine's own, which must not queue the changes it applies.
+  journals: () => ChangeJournal[];
+}
+
+interface OutboxEntry {
+  id: number;
+  store: string;
+  type: 'put' | 'delete' | 'clear';
+  key?: IDBValidKey;
+  value?: unknown;
+  timestamp: number;
+}
+
+// A queued record change together with the older entries for the same record it replaces.
+interface PendingChange {
+  entry: OutboxEntry;
+  superseded: number[];
+}
+
+type Resolution =
+  | { kind: 'remote' }
+  | { kind: 'local' }
+  | { kind: 'merged'; value: unknown };
+
+interface ResolvedConflict {
+  pending: PendingChange;
+  remote: RemoteChange;
+  resolution: Resolution;
+}
+
+// What a pull decides from: the queued local changes and the revisions of the pulled records.
+interface LocalState {
+  entries: OutboxEntry[];
+  revisions: Array<SyncRevision | null>;
+}
+
+function sameState(a: LocalState, b: LocalState): boolean {
+  return a.entries.length === b.entries.length &&
+    a.entries.every((entry, index) => entry.id === b.entries[index].id) &&
+    a.revisions.every((revision, index) => revision === b.revisions[index]);
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function sameRecord(a: { store: string; key?: IDBValidKey }, b: { store: string; key?: IDBValidKey }): boolean {
+  return a.store === b.store && a.key !== undefined && b.key !== undefined && indexedDB.cmp(a.key, b.key) === 0;
+}
+
+// Keeps the latest entry per record, in queue order. Clears have no key and are all kept.
+function compact(entries: OutboxEntry[]): PendingChange[] {
+  const pending: PendingChange[] = [];
+  entries.forEach(entry => {
+    const previous = entry.key === undefined ? -1 : pending.findIndex(item => sameRecord(item.entry, entry));
+    if (previous === -1) {
+      pending.push({ entry, superseded: [] });
+      return;
+    }
+    const [replaced] = pending.splice(previous, 1);
+    pending.push({ entry, superseded: [...replaced.superseded, replaced.entry.id] });
+  });
+  return pending;
+}
+
+// Local writes to synced stores are queued in a durable outbox by the journal, inside the writing
+// transaction. Syncing pushes the outbox, then pulls remote changes from the last saved cursor.
+// Like export and import, the engine works on records as stored: middleware does not run on the
+// values it pushes or applies. That is why encrypted stores cannot be synced: ciphertext would be
+// pushed, and pulled plaintext written where ciphertext is expected.
+export class SyncEngine {
+  private status: SyncStatus = { state: 'idle', pending: 0, lastSyncedAt: null, error: null };
+  private listeners: Set<SyncStatusListener> = new Set();
+  private running: Promise<void> | null = null;
+  private started: boolean = false;
+  private intervalTimer: ReturnType<typeof setInterval> | null = null;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly options: SyncOptions, private readonly host: SyncHost, stores: StoreConfig[]) {
+    const encrypted = stores.filter(store => store.encryption && options.stores.includes(store.name));
+    if (encrypted.length > 0) {
+      throw new Error(`Encrypted stores cannot be synced: ${encrypted.map(store => store.name).join(', ')}`);
+    }
+  }
+
+  tracks(storeName: string): boolean {
+    return this.options.stores.includes(storeName);
+  }
+
+  readonly journal: ChangeJournal = {
+    scope: storeName => this.tracks(storeName) ? [SYNC_OUTBOX_STORE] : [],
+    record: (transaction, storeName, change) => {
+      if (!this.tracks(storeName)) return;
+
+      const entry: Omit<OutboxEntry, 'id'> = {
+        store: storeName,
+        type: change.type === 'add' || change.type === 'update' ? 'put' : change.type,
+        timestamp: Date.now()
+      };
+      if (change.key !== undefined) entry.key = change.key;
+      if (change.value !== undefined) entry.value = change.value;
+
+      transaction.objectStore(SYNC_OUTBOX_STORE).add(entry);
+      this.scheduleFlush();
+    }
+  };
+
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  onStatusChange(listener: SyncStatusListener): Subscription {
+    this.listeners.add(listener);
+    return {
+      unsubscribe: () => {
+        this.listeners.delete(listener);
+      }
+    };
+  }
+
+  // Syncs now, then again whenever the browser comes back online, after local writes and every
+  // `interval` milliseconds.
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+      window.addEventListener('offline', this.handleOffline);
+    }
+    if (this.options.interval) {
+      this.intervalTimer = setInterval(() => this.syncInBackground(), this.options.interval);
+    }
+    this.syncInBackground();
+  }
+
+  stop(): void {
+    this.started = false;
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+      window.removeEventListener('offline', this.handleOffline);
+    }
+    if (this.intervalTimer) clearInterval(this.intervalTimer);
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.intervalTimer = null;
+    this.flushTimer = null;
+  }
+
+  // Concurrent calls share the cycle already running.
+  sync(): Promise<void> {
+    if (this.running) return this.running;
+
+    const running = this.runCycle();
+    this.running = running;
+    const settled = () => {
+      if (this.running === running) {
+        this.running = null;
+      }
+    };
+    running.then(settled, settled);
+    return running;
+  }
+
+  async refresh(): Promise<void> {
+    const db = await this.host.ready();
+    const pending = await requestToPromise(
+      db.transaction(SYNC_OUTBOX_STORE, 'readonly').objectStore(SYNC_OUTBOX_STORE).count()
+    );
+    this.setStatus({ pending });
+  }
+
+  private handleOnline = () => {
+    this.syncInBackground();
+  };
+
+  private handleOffline = () => {
+    this.setStatus({ state: 'offline' });
+  };
+
+  private syncInBackground(): void {
+    // Failures are reported through the status.
+    this.sync().catch(() => undefined);
+  }
+
+  // The journal runs before its transaction commits, so the outbox is counted once it has.
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      if (!this.host.isConnected()) return;
+      if (this.started) {
+        this.syncInBackground();
+      } else {
+        this.refresh().catch(() => undefined);
+      }
+    }, 0);
+  }
+
+  private async runCycle(): Promise<void> {
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      this.setStatus({ state: 'offline' });
+      await this.refresh();
+      return;
+    }
+
+    this.setStatus({ state: 'syncing' });
+    try {
+      await this.push();
+      await this.pull();
+      await this.refresh();
+    } catch (error) {
+      this.setStatus({ state: 'error', error: error as Error });
+      throw error;
+    }
+    this.setStatus({ state: 'idle', error: null, lastSyncedAt: Date.now() });
+  }
+
+  private async push(): Promise<void> {
+    const db = await this.host.ready();
+    const entries = await requestToPromise<OutboxEntry[]>(
+      db.transaction(SYNC_OUTBOX_STORE, 'readonly').objectStore(SYNC_OUTBOX_STORE).getAll()
+    );
+    const pending = compact(entries);
+    const batchSize = this.options.batchSize ?? DEFAULT_SYNC_BATCH_SIZE;
+
+    for (let start = 0; start < pending.length; start += batchSize) {
+      const batch = pending.slice(start, start + batchSize);
+      const revisions = await this.readRevisions(
+        db.transaction(SYNC_REVISIONS_STORE),
+        batch.map(({ entry }) => entry)
+      );
+      const mutations: SyncMutation[] = batch.map(({ entry }, index) => ({
+        ...entry,
+        baseRevision: revisions[index]
+      }));
+
+      const outcomes = await this.options.transport.push(mutations);
+      const applied: Array<{ pending: PendingChange; revision?: SyncRevision }> = [];
+      const conflicts: ResolvedConflict[] = [];
+
+      for (const [index, outcome] of outcomes.slice(0, batch.length).entries()) {
+        if (outcome.status === 'applied') {
+          applied.push({ pending: batch[index], revision: outcome.revision });
+        } else {
+          conflicts.push(await this.resolveConflict(batch[index], outcome));
+        }
+      }
+
+      await this.write(db, batch.map(({ entry }) => entry.store), (tx, recorder) => {
+        const outbox = tx.objectStore(SYNC_OUTBOX_STORE);
+        const revisionStore = tx.objectStore(SYNC_REVISIONS_STORE);
+
+        applied.forEach(({ pending: { entry, superseded }, revision }) => {
+          [entry.id, ...superseded].forEach(id => outbox.delete(id));
+          if (entry.type === 'clear') {
+            revisionStore.delete(IDBKeyRange.bound([entry.store], [entry.store, []]));
+          } else if (revision !== undefined) {
+            revisionStore.put(revision, [entry.store, entry.key!]);
+          }
+        });
+        conflicts.forEach(conflict => this.applyResolution(tx, recorder, conflict));
+      });
+    }
+  }
+
+  private async pull(): Promise<void> {
+    const db = await this.host.ready();
+    let cursor = await requestToPromise<string | undefined>(
+      db.transaction(SYNC_STATE_STORE, 'readonly').objectStore(SYNC_STATE_STORE).get(CURSOR_KEY)
+    ) ?? null;
+
+    for (;;) {
+      const result = await this.options.transport.pull({ cursor, stores: this.options.stores });
+      const changes = result.changes.filter(change => this.tracks(change.store));
+      const nextCursor = result.cursor;
+
+      // A custom merge may take any amount of time, during which the app can write to a pulled
+      // record. The plan is only applied if the write transaction finds nothing has changed since.
+      let state = await this.readState(db.transaction([SYNC_OUTBOX_STORE, SYNC_REVISIONS_STORE]), changes);
+      for (;;) {
+        const planned = state;
+        const { incoming, conflicts } = await this.planPull(changes, planned);
+        const applied = await this.write(db, changes.map(change => change.store), async (tx, recorder) => {
+          state = await this.readState(tx, changes);
+          if (!sameState(state, planned)) return false;
+
+          incoming.forEach(change => this.applyRemote(tx, recorder, change));
+          conflicts.forEach(conflict => this.applyResolution(tx, recorder, conflict));
+          tx.objectStore(SYNC_STATE_STORE).put(nextCursor, CURSOR_KEY);
+          return true;
+        });
+        if (applied) break;
+      }
+
+      cursor = nextCursor;
+      if (!result.hasMore) break;
+    }
+  }
+
+  private async planPull(
+    changes: RemoteChange[],
+    { entries, revisions }: LocalState
+  ): Promise<{ incoming: RemoteChange[]; conflicts: ResolvedConflict[] }> {
+    const pending = compact(entries);
+    const incoming: RemoteChange[] = [];
+    const conflicts: ResolvedConflict[] = [];
+
+    for (const [index, change] of changes.entries()) {
+      if (revisions[index] === change.revision) continue;
+
+      const local = pending.find(item => sameRecord(item.entry, change));
+      if (local) {
+        conflicts.push(await this.resolveConflict(local, { status: 'conflict', remote: change }));
+      } else {
+        incoming.push(change);
+      }
+    }
+    return { incoming, conflicts };
+  }
+
+  private async resolveConflict(
+    pending: PendingChange,
+    outcome: Extract<SyncPushOutcome, { status: 'conflict' }>
+  ): Promise<ResolvedConflict> {
+    const { remote } = outcome;
+    const { entry } = pending;
+    const strategy = this.options.conflict ?? 'lastWriteWins';
+
+    let resolution: Resolution;
+    if (strategy === 'serverWins' || entry.type === 'clear') {
+      resolution = { kind: 'remote' };
+    } else if (strategy === 'lastWriteWins') {
+      // Without a remote timestamp there is nothing to compare against, so the server wins.
+      resolution = remote.updatedAt !== undefined && entry.timestamp > remote.updatedAt
+        ? { kind: 'local' }
+        : { kind: 'remote' };
+    } else {
+      const conflict: SyncConflict = {
+        store: entry.store,
+        key: entry.key!,
+        local: { type: entry.type, value: entry.value, timestamp: entry.timestamp },
+        remote
+      };
+      resolution = { kind: 'merged', value: await strategy(conflict) };
+    }
+    return { pending, remote, resolution };
+  }
+
+  private applyResolution(tx: IDBTransaction, recorder: ChangeRecorder, conflict: ResolvedConflict): void {
+    const { pending: { entry, superseded }, remote, resolution } = conflict;
+    const outbox = tx.objectStore(SYNC_OUTBOX_STORE);
+
+    if (resolution.kind === 'local') {
+      // The queued change is pushed again, this time against the revision it lost to.
+      tx.objectStore(SYNC_REVISIONS_STORE).put(remote.revision, [remote.store, remote.key]);
+      return;
+    }
+
+    [entry.id, ...superseded].forEach(id => outbox.delete(id));
+    if (resolution.kind === 'remote') {
+      this.applyRemote(tx, recorder, remote);
+      return;
+    }
+
+    const merged: RemoteChange = resolution.value === undefined
+      ? { ...remote, value: undefined, deleted: true }
+      : { ...remote, value: resolution.value, deleted: false };
+    this.applyRemote(tx, recorder, merged);
+
+    const queued: Omit<OutboxEntry, 'id'> = {
+      store: remote.store,
+      type: merged.deleted ? 'delete' : 'put',
+      key: remote.key,
+      timestamp: Date.now()
+    };
+    if (!merged.deleted) queued.value = merged.value;
+    outbox.add(queued);
+  }
+
+  private applyRemote(tx: IDBTransaction, recorder: ChangeRecorder, change: RemoteChange): void {
+    const store = tx.objectStore(change.store);
+    const onError = () => undefined;
+
+    if (change.deleted) {
+      runOperation(store, { type: 'delete', key: change.key }, recorder, onError, onError);
+    } else {
+      runOperation(store, {
+        type: 'put',
+        data: change.value,
+        key: store.keyPath === null ? change.key : undefined
+      }, recorder, onError, onError);
+    }
+    tx.objectStore(SYNC_REVISIONS_STORE).put(change.revision, [change.store, change.key]);
+  }
+
+  private async readState(tx: IDBTransaction, records: RemoteChange[]): Promise<LocalState> {
+    const [entries, revisions] = await Promise.all([
+      requestToPromise<OutboxEntry[]>(tx.objectStore(SYNC_OUTBOX_STORE).getAll()),
+      this.readRevisions(tx, records)
+    ]);
+    return { entries, revisions };
+  }
+
+  private async readRevisions(
+    tx: IDBTransaction,
+    records: Array<{ store: string; key?: IDBValidKey }>
+  ): Promise<Array<SyncRevision | null>> {
+    if (records.length === 0) return [];
+
+    const store = tx.objectStore(SYNC_REVISIONS_STORE);
+    return Promise.all(records.map(async record => record.key === undefined
+      ? null
+      : (await requestToPromise<SyncRevision | undefined>(store.get([record.store, record.key]))) ?? null
+    ));
+  }
+
+  // Writes made here bypass the outbox journal, so applying remote changes never queues them again.
+  // `apply` may read within the transaction before writing, and returns false to abandon it.
+  private async write(
+    db: IDBDatabase,
+    storeNames: string[],
+    apply: (tx: IDBTransaction, recorder: ChangeRecorder) => void | boolean | Promise<boolean>
+  ): Promise<boolean> {
+    const journals = this.host.journals();
+    const scope = journalScope(journals, [
+      ...storeNames,
+      SYNC_OUTBOX_STORE,
+      SYNC_REVISIONS_STORE,
+      SYNC_STATE_STORE
+    ]);
+    const changeSets = await new Promise<ChangeSet[] | null>((resolve, reject) => {
+      const tx = db.transaction(scope, 'readwrite');
+      const recorder = new ChangeRecorder(journals);
+      let failure: Error | null = null;
+      let abandoned = false;
+      tx.oncomplete = () => resolve(recorder.getChangeSets());
+      tx.onabort = () => {
+        if (abandoned) {
+          resolve(null);
+        } else {
+          reject(new Error(`Sync failed: ${(failure ?? tx.error)?.message ?? 'transaction aborted'}`));
+        }
+      };
+
+      const stop = () => {
+        try {
+          tx.abort();
+        } catch {
+          // Already finished; its own handlers report the outcome.
+        }
+      };
+      Promise.resolve()
+        .then(() => apply(tx, recorder))
+        .then(result => {
+          if (result === false) {
+            abandoned = true;
+            stop();
+          }
+        }, error => {
+          failure = error as Error;
+          stop();
+        });
+    });
+    if (!changeSets) return false;
+
+    await this.host.publish(changeSets);
+    return true;
+  }
+
+  private setStatus(changes: Partial<SyncStatus>): void {
+    this.status = { ...this.status, ...changes };
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.status);
+      } catch (error) {
+        console.error('Error notifying sync status listeners:', error);
+      }
+    });
+  }
+}
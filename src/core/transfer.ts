@@ -0,0 +1,567 @@
+import {
+  ChangeSet,
+  DatabaseConfig,
+  ExportedStore,
+  ExportHeader,
+  ExportOptions,
+  ImportOptions,
+  ImportResult,
+  ImportSource,
+  Operation
+} from '../types';
+import { ChangeJournal, ChangeRecorder, journalScope } from './changes';
+import { runOperation } from './operations';
+
+export const EXPORT_FORMAT = 'use-indexdb';
+export const EXPORT_VERSION = 1;
+const DEFAULT_TRANSFER_BATCH_SIZE = 1000;
+
+interface ExportedRecord {
+  key: IDBValidKey;
+  value: unknown;
+}
+
+export type Encoded = null | boolean | number | string | Encoded[] | { [key: string]: Encoded };
+
+const TYPED_ARRAYS: Record<string, new (buffer: ArrayBuffer) => ArrayBufferView> = {
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  BigInt64Array,
+  BigUint64Array,
+  DataView
+};
+
+// Values JSON cannot represent are written as `{ $t: type, v: payload }`. Plain objects that
+// happen to own a `$t` key are wrapped the same way so they cannot be mistaken for one. Types are
+// told apart by their tag rather than instanceof, since records may be cloned from another realm.
+export async function encodeValue(value: unknown): Promise<Encoded> {
+  if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    if (Object.is(value, -0)) {
+      return { $t: 'number', v: '-0' };
+    }
+    return Number.isFinite(value) ? value : { $t: 'number', v: String(value) };
+  }
+  if (value === undefined) {
+    return { $t: 'undefined' };
+  }
+  if (typeof value === 'bigint') {
+    return { $t: 'bigint', v: value.toString() };
+  }
+  if (Array.isArray(value)) {
+    const items: Encoded[] = [];
+    for (const item of value) {
+      items.push(await encodeValue(item));
+    }
+    return items;
+  }
+
+  const tag = Object.prototype.toString.call(value).slice(8, -1);
+  if (ArrayBuffer.isView(value)) {
+    if (!(tag in TYPED_ARRAYS)) {
+      throw new Error(`Cannot export a ${tag}`);
+    }
+    return { $t: tag, v: toBase64(new Uint8Array(value.buffer, value.byteOffset, value.byteLength)) };
+  }
+
+  switch (tag) {
+    case 'Date': {
+      const time = (value as Date).getTime();
+      return { $t: 'Date', v: Number.isNaN(time) ? 'NaN' : time };
+    }
+    case 'RegExp':
+      return { $t: 'RegExp', v: [(value as RegExp).source, (value as RegExp).flags] };
+    case 'ArrayBuffer':
+      return { $t: 'ArrayBuffer', v: toBase64(new Uint8Array(value as ArrayBuffer)) };
+    case 'Blob':
+    case 'File': {
+      const blob = value as Blob;
+      const encoded: { [key: string]: Encoded } = {
+        $t: tag,
+        type: blob.type,
+        v: toBase64(new Uint8Array(await readBlob(blob)))
+      };
+      if (tag === 'File') {
+        encoded.name = (value as File).name;
+        encoded.lastModified = (value as File).lastModified;
+      }
+      return encoded;
+    }
+    case 'Map':
+      return { $t: 'Map', v: await encodeValue(Array.from((value as Map<unknown, unknown>).entries())) };
+    case 'Set':
+      return { $t: 'Set', v: await encodeValue(Array.from((value as Set<unknown>).values())) };
+  }
+
+  if (typeof value === 'object') {
+    const encoded: { [key: string]: Encoded } = {};
+    for (const [key, item] of Object.entries(value)) {
+      encoded[key] = await encodeValue(item);
+    }
+    return Object.prototype.hasOwnProperty.call(value, '$t') ? { $t: 'Object', v: encoded } : encoded;
+  }
+  throw new Error(`Cannot export a value of type ${typeof value}`);
+}
+
+export function decodeValue(encoded: Encoded): unknown {
+  if (encoded === null || typeof encoded !== 'object') {
+    return encoded;
+  }
+  if (Array.isArray(encoded)) {
+    return encoded.map(decodeValue);
+  }
+  if (typeof encoded.$t !== 'string') {
+    return decodeObject(encoded);
+  }
+
+  const { $t: type, v } = encoded as { $t: string; v: Encoded };
+  switch (type) {
+    case 'undefined':
+      return undefined;
+    case 'number':
+      return Number(v);
+    case 'bigint':
+      return BigInt(v as string);
+    case 'Date':
+      return new Date(v === 'NaN' ? NaN : v as number);
+    case 'RegExp':
+      return new RegExp(...(v as [string, string]));
+    case 'ArrayBuffer':
+      return fromBase64(v as string).buffer;
+    case 'Blob':
+      return new Blob([fromBase64(v as string)], { type: encoded.type as string });
+    case 'File':
+      return new File([fromBase64(v as string)], encoded.name as string, {
+        type: encoded.type as string,
+        lastModified: encoded.lastModified as number
+      });
+    case 'Map':
+      return new Map(decodeValue(v) as Array<[unknown, unknown]>);
+    case 'Set':
+      return new Set(decodeValue(v) as unknown[]);
+    case 'Object':
+      return decodeObject(v as { [key: string]: Encoded });
+    default:
+      if (type in TYPED_ARRAYS) {
+        return new TYPED_ARRAYS[type](fromBase64(v as string).buffer);
+      }
+      throw new Error(`Unknown exported value type "${type}"`);
+  }
+}
+
+function decodeObject(encoded: { [key: string]: Encoded }): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  Object.entries(encoded).forEach(([key, item]) => {
+    result[key] = decodeValue(item);
+  });
+  return result;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index++) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+}
+
+function readBlob(blob: Blob): Promise<ArrayBuffer> {
+  if (typeof blob.arrayBuffer === 'function') {
+    return blob.arrayBuffer();
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function readPage(
+  db: IDBDatabase,
+  storeName: string,
+  after: IDBValidKey | undefined,
+  limit: number
+): Promise<ExportedRecord[]> {
+  return new Promise((resolve, reject) => {
+    const range = after === undefined ? undefined : IDBKeyRange.lowerBound(after, true);
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).openCursor(range);
+    const records: ExportedRecord[] = [];
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || records.length >= limit) {
+        resolve(records);
+        return;
+      }
+      records.push({ key: cursor.primaryKey, value: cursor.value });
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Each page is read in its own transaction, keyed off the last primary key seen, so the export
+// never holds more than one page in memory and never keeps a transaction open across a yield.
+export async function* exportDatabase(
+  openDatabase: () => Promise<IDBDatabase>,
+  config: DatabaseConfig,
+  options: ExportOptions = {}
+): AsyncGenerator<string> {
+  const format = options.format ?? 'ndjson';
+  const batchSize = options.batchSize ?? DEFAULT_TRANSFER_BATCH_SIZE;
+  const storeConfigs = options.stores
+    ? options.stores.map(storeName => {
+      const storeConfig = config.stores.find(store => store.name === storeName);
+      if (!storeConfig) {
+        throw new Error(`Store "${storeName}" does not exist in database "${config.name}"`);
+      }
+      return storeConfig;
+    })
+    : config.stores;
+
+  const db = await openDatabase();
+  const stores: ExportedStore[] = [];
+  for (const { name, keyPath, autoIncrement, indexes } of storeConfigs) {
+    const count = await requestToPromise(db.transaction(name, 'readonly').objectStore(name).count());
+    stores.push({ name, keyPath, autoIncrement, indexes, count });
+  }
+
+  const header: ExportHeader = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    database: { name: config.name, version: config.version, stores }
+  };
+
+  if (format === 'ndjson') {
+    yield `${JSON.stringify({ type: 'header', ...header })}\n`;
+  } else {
+    yield `${JSON.stringify(header).slice(0, -1)},"records":{`;
+  }
+
+  for (const [storeIndex, { name }] of stores.entries()) {
+    if (format === 'json') {
+      yield `${storeIndex > 0 ? ',' : ''}${JSON.stringify(name)}:[`;
+    }
+
+    let after: IDBValidKey | undefined;
+    let first = true;
+    for (;;) {
+      const page = await readPage(await openDatabase(), name, after, batchSize);
+      for (const record of page) {
+        const entry = { key: await encodeValue(record.key), value: await encodeValue(record.value) };
+        if (format === 'ndjson') {
+          yield `${JSON.stringify({ type: 'record', store: name, ...entry })}\n`;
+        } else {
+          yield `${first ? '' : ','}${JSON.stringify(entry)}`;
+        }
+        first = false;
+      }
+      if (page.length < batchSize) break;
+      after = page[page.length - 1].key;
+    }
+
+    if (format === 'json') {
+      yield ']';
+    }
+  }
+
+  if (format === 'json') {
+    yield '}}';
+  }
+}
+
+async function* toChunks(source: ImportSource): AsyncGenerator<string> {
+  if (typeof source === 'string') {
+    yield source;
+  } else if (typeof ReadableStream !== 'undefined' && source instanceof ReadableStream) {
+    const reader = source.getReader();
+    try {
+      for (let result = await reader.read(); !result.done; result = await reader.read()) {
+        yield result.value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  } else {
+    yield* source as Iterable<string> | AsyncIterable<string>;
+  }
+}
+
+type ImportEntry = { header: ExportHeader } | { store: string; key: Encoded; value: Encoded };
+
+function parseEntry<T>(text: string): T {
+  try {
+    return JSON.parse(text) as T;
+  } catch (error) {
+    throw new Error(`Invalid export: ${(error as Error).message}`);
+  }
+}
+
+function toHeader(entry: Partial<ExportHeader> | null): ExportHeader {
+  const { format, version, database } = entry ?? {};
+  if (format !== EXPORT_FORMAT || version !== EXPORT_VERSION || !database) {
+    throw new Error(`Invalid export: expected a ${EXPORT_FORMAT} version ${EXPORT_VERSION} header`);
+  }
+  return { format, version, database };
+}
+
+// The input is scanned as a sequence of JSON values, one character at a time, so that no more than
+// one record is held in memory. In NDJSON every line is a value. A JSON document is a single value,
+// whose `records` member is read record by record while the rest of it forms the header.
+async function* readEntries(source: ImportSource): AsyncGenerator<ImportEntry> {
+  let header: ExportHeader | null = null;
+  let text = '';
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  // The last string read at the top of the header or of `records`, and where it began in `text`.
+  let lastString = '';
+  let stringStart = 0;
+  let member = '';
+  let memberStart = 0;
+  let inRecords = false;
+  let recordsRead = false;
+  let store = '';
+  let record = '';
+
+  const complete = (value: string): ImportEntry => {
+    const entry = parseEntry<(Partial<ExportHeader> & { type?: unknown }) | null>(value);
+    if (!header) {
+      header = toHeader(entry);
+      return { header };
+    }
+    if (entry?.type !== 'record') {
+      throw new Error(`Invalid export: unexpected entry type "${entry?.type}"`);
+    }
+    return entry as unknown as ImportEntry;
+  };
+
+  for await (const chunk of toChunks(source)) {
+    for (const char of chunk) {
+      const inRecord = inRecords && depth >= 4;
+      if (inRecord) {
+        record += char;
+      } else if (!inRecords && depth > 0) {
+        text += char;
+      }
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+        } else if (!inRecord && depth <= 2 && (!header || inRecords)) {
+          lastString += char;
+        }
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          inString = true;
+          lastString = '';
+          stringStart = text.length - 1;
+          break;
+        case ':':
+          if (!inRecords && depth === 1) {
+            member = lastString;
+            memberStart = stringStart;
+          } else if (inRecords && depth === 2) {
+            store = lastString;
+          }
+          break;
+        case ',':
+          member = '';
+          break;
+        case '{':
+        case '[':
+          if (depth === 0) {
+            text = char;
+          } else if (!header && depth === 1 && member === 'records' && char === '{') {
+            // Everything before `records` is the header; members after it are ignored.
+            text = text.slice(0, memberStart).replace(/,\s*$/, '') + '}';
+            yield complete(text);
+            inRecords = true;
+          } else if (inRecords && depth === 3 && char === '{') {
+            record = char;
+          } else if (inRecords && depth === 3) {
+            throw new Error('Invalid export: expected a record');
+          }
+          depth++;
+          break;
+        case '}':
+        case ']':
+          if (depth === 0) {
+            throw new Error(`Invalid export: unexpected "${char}"`);
+          }
+          depth--;
+          if (inRecords && depth === 3) {
+            yield { store, ...parseEntry<{ key: Encoded; value: Encoded }>(record) };
+            record = '';
+          } else if (inRecords && depth === 1) {
+            inRecords = false;
+            recordsRead = true;
+          } else if (depth === 0) {
+            if (!recordsRead) yield complete(text);
+            recordsRead = false;
+            text = '';
+          }
+          break;
+        default:
+          if (depth === 0 && char.trim() !== '') {
+            throw new Error(`Invalid export: unexpected "${char}"`);
+          }
+      }
+    }
+  }
+
+  if (depth !== 0 || inString) {
+    throw new Error('Invalid export: the input ended in the middle of a value');
+  }
+  if (!header) {
+    throw new Error('Invalid export: the input is empty');
+  }
+}
+
+function writeBatch(
+  db: IDBDatabase,
+  storeNames: string[],
+  operations: Operation[],
+  journals: ChangeJournal[]
+): Promise<ChangeSet[]> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(journalScope(journals, storeNames), 'readwrite');
+    const recorder = new ChangeRecorder(journals);
+    tx.oncomplete = () => resolve(recorder.getChangeSets());
+    tx.onabort = () => reject(new Error(`Import failed: ${tx.error?.message ?? 'transaction aborted'}`));
+
+    // A failed request aborts the transaction, which rejects above; so does one that cannot be issued.
+    for (const operation of operations) {
+      try {
+        runOperation(tx.objectStore(operation.store!), operation, recorder, () => undefined, () => undefined);
+      } catch (error) {
+        tx.onabort = () => reject(new Error(`Import failed: ${(error as Error).message}`));
+        tx.abort();
+        return;
+      }
+    }
+  });
+}
+
+// Records are written as stored, bypassing middleware and validators, so an export of an encrypted
+// store can only be restored with the same keys.
+export async function importDatabase(
+  openDatabase: () => Promise<IDBDatabase>,
+  config: DatabaseConfig,
+  source: ImportSource,
+  options: ImportOptions,
+  onCommit: (changeSets: ChangeSet[]) => Promise<void>,
+  journals: ChangeJournal[] = []
+): Promise<ImportResult> {
+  const mode = options.mode ?? 'merge';
+  const batchSize = options.batchSize ?? DEFAULT_TRANSFER_BATCH_SIZE;
+  const imported: Record<string, number> = {};
+  let total: number | undefined;
+  let completed = 0;
+  let batch: Array<{ store: string; key: Encoded; value: Encoded }> = [];
+  // In replace mode a store is cleared in the same transaction as its first records, so input that
+  // fails to parse before then leaves it untouched.
+  const uncleared = new Set<string>();
+
+  const flush = async () => {
+    if (batch.length === 0) return;
+    const records = batch;
+    batch = [];
+
+    const db = await openDatabase();
+    const storeNames = Array.from(new Set(records.map(record => record.store)));
+    const outOfLine = storeNames.filter(storeName =>
+      db.transaction(storeName, 'readonly').objectStore(storeName).keyPath === null
+    );
+    const clears: Operation[] = storeNames
+      .filter(storeName => uncleared.delete(storeName))
+      .map(storeName => ({ store: storeName, type: 'clear' }));
+    const changeSets = await writeBatch(db, storeNames, [...clears, ...records.map((record): Operation => ({
+      store: record.store,
+      type: 'put',
+      data: decodeValue(record.value),
+      key: outOfLine.includes(record.store) ? decodeValue(record.key) as IDBValidKey : undefined
+    }))], journals);
+
+    records.forEach(record => {
+      imported[record.store] = (imported[record.store] ?? 0) + 1;
+    });
+    completed += records.length;
+    await onCommit(changeSets);
+    options.onProgress?.({ completed, total });
+  };
+
+  for await (const entry of readEntries(source)) {
+    if ('header' in entry) {
+      const storeNames = entry.header.database.stores.map(store => store.name);
+      const missing = storeNames.filter(storeName => !config.stores.some(store => store.name === storeName));
+      if (missing.length > 0) {
+        throw new Error(`Stores ${missing.join(', ')} from the export do not exist in database "${config.name}"`);
+      }
+
+      storeNames.forEach(storeName => {
+        imported[storeName] = 0;
+      });
+      total = entry.header.database.stores.reduce((sum, store) => sum + (store.count ?? 0), 0);
+
+      if (mode === 'replace') {
+        storeNames.forEach(storeName => uncleared.add(storeName));
+      }
+      continue;
+    }
+
+    if (!(entry.store in imported)) {
+      throw new Error(`Invalid export: store "${entry.store}" is missing from the header`);
+    }
+    batch.push(entry);
+    if (batch.length >= batchSize) {
+      await flush();
+    }
+  }
+
+  await flush();
+  // Stores exported without records are only emptied once the whole input has been read.
+  if (uncleared.size > 0) {
+    const storeNames = Array.from(uncleared);
+    await onCommit(await writeBatch(
+      await openDatabase(),
+      storeNames,
+      storeNames.map(storeName => ({ store: storeName, type: 'clear' })),
+      journals
+    ));
+  }
+  return { imported };
+}
@@ -0,0 +1,114 @@
+import {
+  Operation,
+  QuarantinedRecord,
+  RecordValidator,
+  StandardSchemaIssue,
+  StoreConfig,
+  ValidationIssue
+} from '../types';
+import { ValidationError } from './errors';
+import { getValueByKeyPath, isValidKey } from './keys';
+
+export function validateRecord(validator: RecordValidator, value: unknown): ValidationIssue[] {
+  if (typeof validator !== 'function') {
+    const result = validator['~standard'].validate(value);
+    // Validation runs inside IndexedDB transactions, which commit as soon as they go idle.
+    if (result instanceof Promise) {
+      throw new Error('Asynchronous validators are not supported');
+    }
+    return result.issues ? result.issues.map(toValidationIssue) : [];
+  }
+
+  const result = validator(value);
+  if (result === false) {
+    return [{ message: 'Record failed validation', path: [] }];
+  }
+  if (typeof result === 'string') {
+    return [{ message: result, path: [] }];
+  }
+  return Array.isArray(result) ? result : [];
+}
+
+function toValidationIssue(issue: StandardSchemaIssue): ValidationIssue {
+  return {
+    message: issue.message,
+    path: (issue.path ?? []).map(segment => {
+      const key = typeof segment === 'object' ? segment.key : segment;
+      return typeof key === 'number' ? key : String(key);
+    })
+  };
+}
+
+export class RecordValidation {
+  private quarantined: QuarantinedRecord[] = [];
+
+  constructor(
+    private readonly getStoreConfig: (storeName: string) => StoreConfig | undefined,
+    private readonly onQuarantine?: (record: QuarantinedRecord) => void
+  ) {}
+
+  checkWrite(storeName: string, operation: Operation): void {
+    const validator = this.getStoreConfig(storeName)?.validator;
+    if (!validator || (operation.type !== 'add' && operation.type !== 'put')) return;
+
+    const issues = validateRecord(validator, operation.data);
+    if (issues.length > 0) {
+      throw new ValidationError(storeName, issues);
+    }
+  }
+
+  // Invalid records are left in the store but withheld from results, so a bad write from an old
+  // client cannot crash readers. They stay available through getQuarantined() for repair.
+  checkRead<R>(storeName: string, operation: Operation, result: R): R {
+    const storeConfig = this.getStoreConfig(storeName);
+    if (!storeConfig?.validator || !storeConfig.validateOnRead) return result;
+
+    if (operation.type === 'get') {
+      return result === undefined || this.accept(storeConfig, result, operation.key as IDBValidKey)
+        ? result
+        : undefined as R;
+    }
+    if ((operation.type === 'getAll' || operation.type === 'find') && Array.isArray(result)) {
+      return result.filter(value => this.accept(storeConfig, value)) as R;
+    }
+    return result;
+  }
+
+  getQuarantined(storeName?: string): QuarantinedRecord[] {
+    return this.quarantined.filter(record => storeName === undefined || record.storeName === storeName);
+  }
+
+  clearQuarantine(storeName?: string): void {
+    this.quarantined = this.quarantined.filter(
+      record => storeName !== undefined && record.storeName !== storeName
+    );
+  }
+
+  private accept(storeConfig: StoreConfig, value: unknown, key?: IDBValidKey): boolean {
+    const issues = validateRecord(storeConfig.validator!, value);
+    if (issues.length === 0) return true;
+
+    const recordKey = key ?? (storeConfig.keyPath ? getValueByKeyPath(value, storeConfig.keyPath) : undefined);
+    const record: QuarantinedRecord = {
+      storeName: storeConfig.name,
+      key: isValidKey(recordKey) ? recordKey : undefined,
+      value,
+      issues
+    };
+
+    const index = this.quarantined.findIndex(existing =>
+      existing.storeName === record.storeName &&
+      existing.key !== undefined &&
+      record.key !== undefined &&
+      indexedDB.cmp(existing.key, record.key) === 0
+    );
+    if (index === -1) {
+      this.quarantined.push(record);
+    } else {
+      this.quarantined[index] = record;
+    }
+
+    this.onQuarantine?.(record);
+    return false;
+  }
+}
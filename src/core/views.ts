@@ -0,0 +1,84 @@
+import {
+  RegisteredSchema,
+  StoreConfig,
+  StoreName,
+  ViewDefinition,
+  ViewOptions,
+  ViewSources
+} from '../types';
+import { ChangeJournal } from './changes';
+
+export const VIEWS_STORE = '__views';
+
+export const VIEWS_STORE_CONFIG: StoreConfig = { name: VIEWS_STORE };
+
+export function defineView<R, N extends StoreName<RegisteredSchema> = StoreName<RegisteredSchema>>(
+  name: string,
+  stores: N[],
+  compute: (sources: ViewSources<RegisteredSchema, N>) => R,
+  options: ViewOptions = {}
+): ViewDefinition<R> {
+  if (stores.length === 0) {
+    throw new Error(`View "${name}" must read at least one store`);
+  }
+
+  return {
+    name,
+    stores,
+    compute: compute as (sources: Record<string, unknown[]>) => R,
+    persist: options.persist ?? false
+  };
+}
+
+export function toViewSources(view: ViewDefinition, records: unknown[][]): Record<string, unknown[]> {
+  return Object.fromEntries(view.stores.map((storeName, index) => [storeName, records[index]]));
+}
+
+// A persisted result is deleted in the same transaction as any write to its sources, so a stored
+// result is never stale, even when the page closes before the view is recomputed.
+export function createViewJournal(views: ViewDefinition[]): ChangeJournal {
+  const dependents = (storeName: string) =>
+    views.filter(view => view.persist && view.stores.includes(storeName));
+
+  return {
+    scope: storeName => dependents(storeName).length > 0 ? [VIEWS_STORE] : [],
+    record: (transaction, storeName) => {
+      dependents(storeName).forEach(view => {
+        transaction.objectStore(VIEWS_STORE).delete(view.name);
+      });
+    }
+  };
+}
+
+// Results are computed once and shared until one of the view's source stores changes. They are
+// keyed by view name, like persisted results, so a definition recreated on every render still
+// hits the cache.
+export class ViewCache {
+  private results: Map<string, { stores: string[]; result: Promise<unknown> }> = new Map();
+
+  constructor(private readonly load: (view: ViewDefinition) => Promise<unknown>) {}
+
+  get<R>(view: ViewDefinition<R>): Promise<R> {
+    const cached = this.results.get(view.name);
+    if (cached) return cached.result as Promise<R>;
+
+    const result = this.load(view);
+    this.results.set(view.name, { stores: view.stores, result });
+    result.catch(() => {
+      if (this.results.get(view.name)?.result === result) {
+        this.results.delete(view.name);
+      }
+    });
+    return result as Promise<R>;
+  }
+
+  invalidate(storeName: string): void {
+    Array.from(this.results.entries())
+      .filter(([, { stores }]) => stores.includes(storeName))
+      .forEach(([name]) => this.results.delete(name));
+  }
+
+  clear(): void {
+    this.results.clear();
+  }
+}
@@ -0,0 +1,13 @@
+import { DependencyList, useRef } from 'react';
+
+// Caller-supplied dependency lists cannot be spread into an effect's own list, so they are reduced
+// to a number that changes whenever one of their entries does.
+export function useDepsVersion(deps: DependencyList): number {
+  const ref = useRef({ deps, version: 0 });
+  const previous = ref.current.deps;
+
+  if (previous.length !== deps.length || deps.some((dep, index) => !Object.is(dep, previous[index]))) {
+    ref.current = { deps, version: ref.current.version + 1 };
+  }
+  return ref.current.version;
+}
@@ -1,108 +1,280 @@
-import { useState, useEffect, useCallback, useContext } from 'react';
+import { useState, useEffect, useCallback, useContext, useRef } from 'react';
 import { IndexedDBContext } from '../context/IndexedDBContext';
-import { UseIndexedDBReturn } from '../types';
+import {
+  BulkOptions,
+  BulkResult,
+  OptimisticMutation,
+  Operation,
+  QueryOptions,
+  RegisteredSchema,
+  ResolvedValue,
+  StoreIndexName,
+  StoreKey,
+  StoreChange,
+  StoreName,
+  UseIndexedDBOptions,
+  UseIndexedDBReturn
+} from '../types';
+import { applyChangeSet, changeAffectsQuery } from '../core/changes';
+import { getValueByKeyPath, isValidKey } from '../core/keys';
+import { useStableValue } from './useStableValue';
 
-export function useIndexedDB<T = any>(storeName: string): UseIndexedDBReturn<T> {
+export function useIndexedDB<
+  T = never,
+  N extends StoreName<RegisteredSchema> = StoreName<RegisteredSchema>,
+  R = ResolvedValue<T, RegisteredSchema, N>
+>(
+  storeName: N,
+  options?: UseIndexedDBOptions<
+    ResolvedValue<T, RegisteredSchema, N>,
+    R,
+    StoreIndexName<RegisteredSchema, N>
+  >
+): UseIndexedDBReturn<
+  ResolvedValue<T, RegisteredSchema, N>,
+  StoreKey<RegisteredSchema, N>,
+  StoreIndexName<RegisteredSchema, N>,
+  R
+>;
+export function useIndexedDB<T = any, R = T>(
+  storeName: string,
+  options: UseIndexedDBOptions<T, R> = {}
+): UseIndexedDBReturn<T, IDBValidKey, string, R> {
+  const { eager = true, optimistic = false, index, limit } = options;
+  const query = useStableValue(options.query);
   const context = useContext(IndexedDBContext);
-  const [data, setData] = useState<T[] | null>(null);
-  const [loading, setLoading] = useState<boolean>(true);
+  const [data, setData] = useState<R[] | null>(null);
+  // Raw records, kept so change sets can be applied before `select` runs again.
+  const dataRef = useRef<T[] | null>(null);
+  const selectRef = useRef(options.select);
+  // Optimistic changes not yet committed, shown on top of the stored records in order.
+  const pendingRef = useRef<Array<{ id: number; change: StoreChange<T> }>>([]);
+  const mutationsRef = useRef<OptimisticMutation[]>([]);
+  const [mutations, setMutations] = useState<OptimisticMutation[]>([]);
+  const mutationIdRef = useRef(0);
+  const [loading, setLoading] = useState<boolean>(eager);
   const [error, setError] = useState<Error | null>(null);
 
   if (!context) {
     throw new Error('useIndexedDB must be used within IndexedDBProvider');
   }
 
-  const { db, executeTransaction, subscribe } = context;
+  selectRef.current = options.select;
+
+  const { db, config, executeTransaction, executeBulk, subscribeChanges } = context;
+  const storeConfig = config.stores.find(store => store.name === storeName);
+  const keyPath = storeConfig?.keyPath;
+  const scoped = query !== undefined || index !== undefined || limit !== undefined;
+
+  const render = useCallback(() => {
+    if (dataRef.current === null) return;
+
+    const shown = pendingRef.current.reduce((records, { change }) =>
+      applyChangeSet(records, { storeName, changes: [change] }, keyPath) ?? records, dataRef.current);
+    const select = selectRef.current;
+    setData(select ? shown.map(record => select(record)) : shown as unknown as R[]);
+  }, [storeName, keyPath]);
+
+  const publish = useCallback((records: T[]) => {
+    dataRef.current = records;
+    render();
+  }, [render]);
+
+  const trackMutation = useCallback((id: number, mutation: OptimisticMutation | null) => {
+    const others = mutationsRef.current.filter(entry => entry.id !== id);
+    mutationsRef.current = mutation ? [...others, mutation] : others;
+    setMutations(mutationsRef.current);
+  }, []);
+
+  // Only an unscoped handle reads the whole store.
+  const loadRecords = useCallback(async (): Promise<T[]> => {
+    const [records] = await executeTransaction<[T[]]>({
+      store: storeName,
+      mode: 'readonly',
+      operations: [scoped ? { type: 'find', options: { query, index, limit } } : { type: 'getAll' }]
+    });
+    return records;
+  }, [storeName, executeTransaction, scoped, query, index, limit]);
 
   useEffect(() => {
-    if (!db) {
+    if (!db || !eager) {
       setLoading(false);
       return;
     }
 
-    const subscription = subscribe<T>(storeName, (newData) => {
-      setData(newData);
-      setLoading(false);
-      setError(null);
+    let active = true;
+
+    const load = async () => {
+      try {
+        const records = await loadRecords();
+        if (active) {
+          publish(records);
+          setError(null);
+        }
+      } catch (err) {
+        if (active) {
+          setError(err as Error);
+        }
+      } finally {
+        if (active) {
+          setLoading(false);
+        }
+      }
+    };
+
+    setLoading(true);
+    load();
+
+    const subscription = subscribeChanges<T>(storeName, (changeSet) => {
+      // A scoped result cannot be patched without knowing what lies past its limit.
+      if (scoped) {
+        if (changeAffectsQuery(changeSet, storeConfig, { query, index, limit }, dataRef.current ?? [])) {
+          load();
+        }
+        return;
+      }
+
+      const patched = dataRef.current && applyChangeSet(dataRef.current, changeSet, keyPath);
+      if (patched) {
+        publish(patched);
+      } else {
+        load();
+      }
     });
 
     return () => {
+      active = false;
       subscription.unsubscribe();
     };
-  }, [db, storeName, subscribe]);
+  }, [db, eager, storeName, storeConfig, keyPath, scoped, query, index, limit, loadRecords, subscribeChanges, publish]);
 
-  const add = useCallback(async (value: T, key?: IDBValidKey): Promise<IDBValidKey> => {
-    try {
-      setLoading(true);
-      const result = await executeTransaction<IDBValidKey>({
-        store: storeName,
-        mode: 'readwrite',
-        operations: [{ type: 'add', data: value, key }]
-      });
-      setLoading(false);
-      return result;
-    } catch (err) {
-      setError(err as Error);
-      setLoading(false);
-      throw err;
+  // Committed changes reach the subscription above before the transaction resolves, so dropping
+  // the optimistic change afterwards leaves the committed record in its place.
+  const mutate = useCallback(async <K,>(
+    operation: Operation,
+    change: StoreChange<T> | null
+  ): Promise<K> => {
+    const transaction = { store: storeName, mode: 'readwrite' as const, operations: [operation] };
+
+    if (!optimistic) {
+      try {
+        setLoading(true);
+        const [result] = await executeTransaction<[K]>(transaction);
+        setLoading(false);
+        return result;
+      } catch (err) {
+        setError(err as Error);
+        setLoading(false);
+        throw err;
+      }
+    }
+
+    const id = ++mutationIdRef.current;
+    const mutation: OptimisticMutation = {
+      id,
+      type: operation.type as OptimisticMutation['type'],
+      key: ('key' in operation ? operation.key : undefined) ?? change?.key,
+      status: 'pending'
+    };
+    const settle = () => {
+      pendingRef.current = pendingRef.current.filter(entry => entry.id !== id);
+      render();
+    };
+
+    trackMutation(id, mutation);
+    if (change && !scoped) {
+      pendingRef.current = [...pendingRef.current, { id, change }];
+      render();
     }
-  }, [storeName, executeTransaction]);
 
-  const put = useCallback(async (value: T, key?: IDBValidKey): Promise<IDBValidKey> => {
     try {
-      setLoading(true);
-      const result = await executeTransaction<IDBValidKey>({
-        store: storeName,
-        mode: 'readwrite',
-        operations: [{ type: 'put', data: value, key }]
-      });
-      setLoading(false);
+      const [result] = await executeTransaction<[K]>(transaction);
+      settle();
+      trackMutation(id, null);
       return result;
     } catch (err) {
+      settle();
       setError(err as Error);
-      setLoading(false);
+      trackMutation(id, { ...mutation, status: 'failed', error: err as Error });
       throw err;
     }
-  }, [storeName, executeTransaction]);
+  }, [storeName, optimistic, scoped, executeTransaction, render, trackMutation]);
+
+  const keyOf = useCallback((value: T, key?: IDBValidKey): IDBValidKey | undefined => {
+    const resolved = key ?? (keyPath ? getValueByKeyPath(value, keyPath) : undefined);
+    return isValidKey(resolved) ? resolved : undefined;
+  }, [keyPath]);
+
+  // Records without a key yet (auto-incremented adds) only appear once committed.
+  const add = useCallback((value: T, key?: IDBValidKey): Promise<IDBValidKey> => {
+    const recordKey = keyOf(value, key);
+    return mutate<IDBValidKey>(
+      { type: 'add', data: value, key },
+      recordKey === undefined ? null : { type: 'add', key: recordKey, value }
+    );
+  }, [mutate, keyOf]);
+
+  const put = useCallback((value: T, key?: IDBValidKey): Promise<IDBValidKey> => {
+    const recordKey = keyOf(value, key);
+    return mutate<IDBValidKey>(
+      { type: 'put', data: value, key },
+      recordKey === undefined ? null : { type: 'update', key: recordKey, value }
+    );
+  }, [mutate, keyOf]);
+
+  const deleteItem = useCallback((key: IDBValidKey | IDBKeyRange): Promise<void> => {
+    return mutate<void>(
+      { type: 'delete', key },
+      key instanceof IDBKeyRange ? null : { type: 'delete', key }
+    );
+  }, [mutate]);
+
+  const clear = useCallback((): Promise<void> => {
+    return mutate<void>({ type: 'clear' }, { type: 'clear' });
+  }, [mutate]);
 
-  const deleteItem = useCallback(async (key: IDBValidKey | IDBKeyRange): Promise<void> => {
+  const clearMutations = useCallback(() => {
+    mutationsRef.current = mutationsRef.current.filter(mutation => mutation.status === 'pending');
+    setMutations(mutationsRef.current);
+  }, []);
+
+  const get = useCallback(async (key: IDBValidKey): Promise<T | undefined> => {
     try {
-      setLoading(true);
-      await executeTransaction({
+      const [result] = await executeTransaction<[T | undefined]>({
         store: storeName,
-        mode: 'readwrite',
-        operations: [{ type: 'delete', key }]
+        mode: 'readonly',
+        operations: [{ type: 'get', key }]
       });
-      setLoading(false);
+      return result;
     } catch (err) {
       setError(err as Error);
-      setLoading(false);
       throw err;
     }
   }, [storeName, executeTransaction]);
 
-  const clear = useCallback(async (): Promise<void> => {
+  const getAll = useCallback(async (
+    query?: IDBKeyRange | IDBValidKey,
+    count?: number
+  ): Promise<T[]> => {
     try {
-      setLoading(true);
-      await executeTransaction({
+      const [result] = await executeTransaction<[T[]]>({
         store: storeName,
-        mode: 'readwrite',
-        operations: [{ type: 'clear' }]
+        mode: 'readonly',
+        operations: [{ type: 'getAll', query, data: count }]
       });
-      setLoading(false);
+      return result;
     } catch (err) {
       setError(err as Error);
-      setLoading(false);
       throw err;
     }
   }, [storeName, executeTransaction]);
 
-  const get = useCallback(async (key: IDBValidKey): Promise<T | undefined> => {
+  const count = useCallback(async (query?: IDBKeyRange | IDBValidKey): Promise<number> => {
     try {
-      const result = await executeTransaction<T | undefined>({
+      const [result] = await executeTransaction<[number]>({
         store: storeName,
         mode: 'readonly',
-        operations: [{ type: 'get', key }]
+        operations: [{ type: 'count', query }]
       });
       return result;
     } catch (err) {
@@ -111,15 +283,12 @@ export function useIndexedDB<T = any>(storeName: string): UseIndexedDBReturn<T>
     }
   }, [storeName, executeTransaction]);
 
-  const getAll = useCallback(async (
-    query?: IDBKeyRange | IDBValidKey,
-    count?: number
-  ): Promise<T[]> => {
+  const find = useCallback(async (options: QueryOptions): Promise<T[]> => {
     try {
-      const result = await executeTransaction<T[]>({
+      const [result] = await executeTransaction<[T[]]>({
         store: storeName,
         mode: 'readonly',
-        operations: [{ type: 'getAll', query, data: count }]
+        operations: [{ type: 'find', options }]
       });
       return result;
     } catch (err) {
@@ -128,31 +297,49 @@ export function useIndexedDB<T = any>(storeName: string): UseIndexedDBReturn<T>
     }
   }, [storeName, executeTransaction]);
 
-  const count = useCallback(async (query?: IDBKeyRange | IDBValidKey): Promise<number> => {
+  const runBulk = useCallback(async <R,>(
+    mode: IDBTransactionMode,
+    operations: Operation[],
+    options?: BulkOptions
+  ): Promise<BulkResult<R>> => {
     try {
-      const result = await executeTransaction<number>({
-        store: storeName,
-        mode: 'readonly',
-        operations: [{ type: 'count', query }]
-      });
+      setLoading(true);
+      const result = await executeBulk<R>(storeName, mode, operations, options);
+      setLoading(false);
       return result;
     } catch (err) {
       setError(err as Error);
+      setLoading(false);
       throw err;
     }
-  }, [storeName, executeTransaction]);
+  }, [storeName, executeBulk]);
+
+  const bulkAdd = useCallback((values: T[], options?: BulkOptions) => {
+    return runBulk<IDBValidKey>('readwrite', values.map(data => ({ type: 'add', data })), options);
+  }, [runBulk]);
+
+  const bulkPut = useCallback((values: T[], options?: BulkOptions) => {
+    return runBulk<IDBValidKey>('readwrite', values.map(data => ({ type: 'put', data })), options);
+  }, [runBulk]);
+
+  const bulkGet = useCallback((keys: IDBValidKey[], options?: BulkOptions) => {
+    return runBulk<T>('readonly', keys.map(key => ({ type: 'get', key })), options);
+  }, [runBulk]);
+
+  const bulkDelete = useCallback((keys: IDBValidKey[], options?: BulkOptions) => {
+    return runBulk<void>('readwrite', keys.map(key => ({ type: 'delete', key })), options);
+  }, [runBulk]);
 
   const refresh = useCallback(async (): Promise<void> => {
     try {
       setLoading(true);
-      const newData = await getAll();
-      setData(newData);
+      publish(await loadRecords());
       setLoading(false);
     } catch (err) {
       setError(err as Error);
       setLoading(false);
     }
-  }, [getAll]);
+  }, [loadRecords, publish]);
 
   return {
     data,
@@ -165,6 +352,13 @@ export function useIndexedDB<T = any>(storeName: string): UseIndexedDBReturn<T>
     get,
     getAll,
     count,
-    refresh
+    find,
+    bulkAdd,
+    bulkPut,
+    bulkGet,
+    bulkDelete,
+    refresh,
+    mutations,
+    clearMutations
   };
 }
\ No newline at end of file
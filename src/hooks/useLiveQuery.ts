@@ -1,27 +1,72 @@
-import { useState, useEffect, useContext, DependencyList } from 'react';
+import { useState, useEffect, useContext, useRef, DependencyList } from 'react';
 import { IndexedDBContext } from '../context/IndexedDBContext';
+import { changeAffectsQuery } from '../core/changes';
+import {
+  IndexedDBContextValue,
+  QueryOptions,
+  RegisteredSchema,
+  ResolvedValue,
+  StoreIndexName,
+  StoreName,
+  Subscription
+} from '../types';
+import { useDepsVersion } from './useDepsVersion';
+import { useStableValue } from './useStableValue';
 
-export interface LiveQueryOptions {
-  storeName: string;
+export interface LiveQueryOptions<N extends string = string, I extends string = string> {
+  storeName: N;
   query?: IDBKeyRange | IDBValidKey;
   count?: number;
-  index?: string;
+  index?: I;
+  direction?: IDBCursorDirection;
+  offset?: number;
 }
 
-export function useLiveQuery<T = any>(
-  options: LiveQueryOptions,
+export type LiveQuerier<R> = (context: IndexedDBContextValue) => Promise<R>;
+
+export interface LiveQueryResult<D> {
+  data: D;
+  loading: boolean;
+  error: Error | null;
+}
+
+export function useLiveQuery<
+  T = never,
+  N extends StoreName<RegisteredSchema> = StoreName<RegisteredSchema>
+>(
+  options: LiveQueryOptions<N, StoreIndexName<RegisteredSchema, N>>,
+  deps?: DependencyList
+): LiveQueryResult<ResolvedValue<T, RegisteredSchema, N>[]>;
+export function useLiveQuery<R>(
+  querier: LiveQuerier<R>,
+  deps?: DependencyList
+): LiveQueryResult<R | undefined>;
+export function useLiveQuery(
+  source: LiveQueryOptions | LiveQuerier<unknown>,
   deps: DependencyList = []
-) {
+): LiveQueryResult<unknown> {
   const context = useContext(IndexedDBContext);
-  const [data, setData] = useState<T[]>([]);
+  const isQuerier = typeof source === 'function';
+  const [data, setData] = useState<unknown>(isQuerier ? undefined : []);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
+  // The querier and context are read when the query runs; `deps` says when to run it again.
+  const sourceRef = useRef(source);
+  const contextRef = useRef(context);
+  const depsVersion = useDepsVersion(deps);
 
   if (!context) {
     throw new Error('useLiveQuery must be used within IndexedDBProvider');
   }
 
-  const { db, executeTransaction, subscribe } = context;
+  sourceRef.current = source;
+  contextRef.current = context;
+
+  const { db, config, executeTransaction, subscribeChanges, trackStores } = context;
+  const options = isQuerier ? null : source;
+  const storeName = options?.storeName;
+  const query = useStableValue(options?.query);
+  const { index, direction, offset, count } = options ?? {};
 
   useEffect(() => {
     if (!db) {
@@ -30,49 +75,97 @@ export function useLiveQuery<T = any>(
     }
 
     let unsubscribed = false;
+    let latestRun = 0;
+    let subscriptions: Subscription[] = [];
 
-    const loadData = async () => {
-      try {
-        setLoading(true);
-        const result = await executeTransaction<T[]>({
-          store: options.storeName,
-          mode: 'readonly',
-          operations: [{
-            type: 'getAll',
-            query: options.query,
-            data: options.count
-          }]
-        });
-
-        if (!unsubscribed) {
-          setData(result);
-          setError(null);
-        }
-      } catch (err) {
-        if (!unsubscribed) {
-          setError(err as Error);
+    const settle = (run: number, apply: () => void) => {
+      if (unsubscribed || run !== latestRun) return;
+      apply();
+      setError(null);
+      setLoading(false);
+    };
+
+    const fail = (run: number, err: unknown) => {
+      if (unsubscribed || run !== latestRun) return;
+      setError(err as Error);
+      setLoading(false);
+    };
+
+    if (storeName === undefined) {
+      let trackedStores = '';
+
+      const runQuerier = async () => {
+        const run = ++latestRun;
+        try {
+          const querier = sourceRef.current as LiveQuerier<unknown>;
+          const { result, stores } = await trackStores(() => querier(contextRef.current!));
+          settle(run, () => setData(result));
+
+          const storesKey = [...stores].sort().join('\u0000');
+          if (!unsubscribed && storesKey !== trackedStores) {
+            trackedStores = storesKey;
+            subscriptions.forEach(subscription => subscription.unsubscribe());
+            subscriptions = stores.map(name => subscribeChanges(name, () => {
+              runQuerier();
+            }));
+          }
+        } catch (err) {
+          fail(run, err);
         }
-      } finally {
-        if (!unsubscribed) {
-          setLoading(false);
+      };
+
+      setLoading(true);
+      runQuerier();
+    } else {
+      const storeConfig = config.stores.find(store => store.name === storeName);
+      const queryOptions: QueryOptions = { query, index, direction, offset, limit: count };
+      let results: unknown[] = [];
+
+      const loadData = async () => {
+        const run = ++latestRun;
+        try {
+          const [result] = await executeTransaction<[unknown[]]>({
+            store: storeName,
+            mode: 'readonly',
+            operations: [{ type: 'find', options: queryOptions }]
+          });
+          settle(run, () => {
+            results = result;
+            setData(result);
+          });
+        } catch (err) {
+          fail(run, err);
         }
-      }
-    };
+      };
 
-    loadData();
+      setLoading(true);
+      loadData();
 
-    const subscription = subscribe<T>(options.storeName, (newData) => {
-      if (!unsubscribed) {
-        setData(newData);
-        setError(null);
-      }
-    });
+      subscriptions = [subscribeChanges(storeName, (changeSet) => {
+        if (changeAffectsQuery(changeSet, storeConfig, queryOptions, results)) {
+          loadData();
+        }
+      })];
+    }
 
     return () => {
       unsubscribed = true;
-      subscription.unsubscribe();
+      subscriptions.forEach(subscription => subscription.unsubscribe());
     };
-  }, [db, options.storeName, options.query, options.count, ...deps]);
+  }, [
+    db,
+    config,
+    storeName,
+    query,
+    count,
+    index,
+    direction,
+    offset,
+    executeTransaction,
+    subscribeChanges,
+    trackStores,
+    depsVersion
+  ]);
 
   return { data, loading, error };
-}
\ No newline at end of file
+}
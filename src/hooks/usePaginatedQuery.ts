@@ -0,0 +1,183 @@
+import { useState, useEffect, useContext, useCallback, useMemo, useRef } from 'react';
+import { IndexedDBContext } from '../context/IndexedDBContext';
+import {
+  DEFAULT_PAGE_SIZE,
+  applyPageChanges,
+  fetchPage,
+  positionOf
+} from '../core/pagination';
+import {
+  QueryPosition,
+  RegisteredSchema,
+  ResolvedValue,
+  StoreIndexName,
+  StoreName
+} from '../types';
+import { useStableValue } from './useStableValue';
+
+export interface PaginatedQueryOptions<N extends string = string, I extends string = string> {
+  storeName: N;
+  index?: I;
+  query?: IDBKeyRange | IDBValidKey;
+  direction?: 'next' | 'prev';
+  pageSize?: number;
+}
+
+export interface PageInfo {
+  pageSize: number;
+  pagesLoaded: number;
+  endCursor: QueryPosition | null;
+}
+
+export interface PaginatedQueryResult<T> {
+  data: T[];
+  loading: boolean;
+  error: Error | null;
+  hasMore: boolean;
+  pageInfo: PageInfo;
+  loadMore: () => Promise<void>;
+  reset: () => Promise<void>;
+}
+
+interface PaginationState<T> {
+  data: T[];
+  hasMore: boolean;
+  pagesLoaded: number;
+  endCursor: QueryPosition | null;
+}
+
+function emptyPagination<T>(): PaginationState<T> {
+  return { data: [], hasMore: true, pagesLoaded: 0, endCursor: null };
+}
+
+export function usePaginatedQuery<
+  T = never,
+  N extends StoreName<RegisteredSchema> = StoreName<RegisteredSchema>
+>(
+  options: PaginatedQueryOptions<N, StoreIndexName<RegisteredSchema, N>>
+): PaginatedQueryResult<ResolvedValue<T, RegisteredSchema, N>> {
+  type V = ResolvedValue<T, RegisteredSchema, N>;
+
+  const context = useContext(IndexedDBContext);
+  const [pagination, setPagination] = useState<PaginationState<V>>(emptyPagination);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const stateRef = useRef(pagination);
+  const generationRef = useRef(0);
+  const loadingRef = useRef<{ generation: number; promise: Promise<void> } | null>(null);
+
+  if (!context) {
+    throw new Error('usePaginatedQuery must be used within IndexedDBProvider');
+  }
+
+  const { db, config, executeTransaction, subscribeChanges } = context;
+  const { storeName, index, direction } = options;
+  const query = useStableValue(options.query);
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  const storeConfig = config.stores.find(store => store.name === storeName);
+  const pageQuery = useMemo(() => ({ index, query, direction }), [index, query, direction]);
+
+  const update = useCallback((next: PaginationState<V>) => {
+    stateRef.current = next;
+    setPagination(next);
+  }, []);
+
+  // Each load belongs to a generation; a reset or new query discards loads still in flight.
+  const load = useCallback(async (after: QueryPosition | null, limit: number, replace: boolean) => {
+    const generation = generationRef.current;
+    setLoading(true);
+    try {
+      const page = await fetchPage<V>(executeTransaction, storeConfig, pageQuery, limit, after);
+      if (generation !== generationRef.current) return;
+
+      const previous = stateRef.current;
+      update({
+        data: replace ? page.items : [...previous.data, ...page.items],
+        hasMore: page.hasMore,
+        pagesLoaded: replace ? Math.max(1, Math.ceil(limit / pageSize)) : previous.pagesLoaded + 1,
+        endCursor: page.endCursor
+      });
+      setError(null);
+    } catch (err) {
+      if (generation !== generationRef.current) return;
+      setError(err as Error);
+    }
+    setLoading(false);
+  }, [executeTransaction, storeConfig, pageQuery, pageSize, update]);
+
+  // Loads are tracked so that loadMore() called while the first page, a reload or another page is
+  // still loading waits for it instead of fetching the same records again.
+  const track = useCallback((promise: Promise<void>): Promise<void> => {
+    const tracked = promise.finally(() => {
+      if (loadingRef.current?.promise === tracked) {
+        loadingRef.current = null;
+      }
+    });
+    loadingRef.current = { generation: generationRef.current, promise: tracked };
+    return tracked;
+  }, []);
+
+  const reload = useCallback((limit: number): Promise<void> => {
+    generationRef.current++;
+    return track(load(null, limit, true));
+  }, [load, track]);
+
+  const reset = useCallback(async () => {
+    update(emptyPagination());
+    await reload(pageSize);
+  }, [reload, pageSize, update]);
+
+  const loadMore = useCallback((): Promise<void> => {
+    const pending = loadingRef.current;
+    if (pending && pending.generation === generationRef.current) return pending.promise;
+
+    const current = stateRef.current;
+    if (!current.hasMore) return Promise.resolve();
+    return track(load(current.endCursor, pageSize, false));
+  }, [load, track, pageSize]);
+
+  useEffect(() => {
+    if (!db) {
+      setLoading(false);
+      return;
+    }
+
+    const generations = generationRef;
+    reset();
+
+    const subscription = subscribeChanges<V>(storeName, (changeSet) => {
+      const current = stateRef.current;
+      const data = applyPageChanges(current.data, changeSet, storeConfig, pageQuery, current);
+      if (data === null) {
+        // Reload everything loaded so far in one go.
+        reload(Math.max(current.data.length, pageSize));
+        return;
+      }
+
+      // With no more pages the window is open-ended, so it now ends at the last record.
+      const last = data[data.length - 1];
+      update({
+        ...current,
+        data,
+        endCursor: !current.hasMore && last !== undefined
+          ? positionOf(last, storeConfig, pageQuery)
+          : current.endCursor
+      });
+    });
+
+    return () => {
+      generations.current++;
+      subscription.unsubscribe();
+    };
+  }, [db, storeName, storeConfig, pageQuery, pageSize, subscribeChanges, reload, reset, update]);
+
+  return {
+    data: pagination.data,
+    loading,
+    error,
+    hasMore: pagination.hasMore,
+    pageInfo: { pageSize, pagesLoaded: pagination.pagesLoaded, endCursor: pagination.endCursor },
+    loadMore,
+    reset
+  };
+}
@@ -0,0 +1,91 @@
+import { useState, useEffect, useContext, useRef, DependencyList } from 'react';
+import { IndexedDBContext } from '../context/IndexedDBContext';
+import { QueryBuilder } from '../core/QueryBuilder';
+import { changeAffectsQuery } from '../core/changes';
+import {
+  RegisteredSchema,
+  ResolvedValue,
+  StoreIndexName,
+  StoreKey,
+  StoreName
+} from '../types';
+import { useDepsVersion } from './useDepsVersion';
+
+export interface QueryResult<T> {
+  data: T[];
+  loading: boolean;
+  error: Error | null;
+}
+
+type StoreQuery<V, N extends StoreName<RegisteredSchema>> =
+  QueryBuilder<V, StoreIndexName<RegisteredSchema, N>, StoreKey<RegisteredSchema, N>>;
+
+export function useQuery<
+  T = never,
+  N extends StoreName<RegisteredSchema> = StoreName<RegisteredSchema>,
+  V = ResolvedValue<T, RegisteredSchema, N>
+>(
+  storeName: N,
+  build: (query: StoreQuery<V, N>) => StoreQuery<V, N>,
+  deps: DependencyList = []
+): QueryResult<V> {
+  const context = useContext(IndexedDBContext);
+  const [data, setData] = useState<V[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const buildRef = useRef(build);
+  const depsVersion = useDepsVersion(deps);
+
+  if (!context) {
+    throw new Error('useQuery must be used within IndexedDBProvider');
+  }
+
+  const { db, config, query, subscribeChanges } = context;
+  buildRef.current = build;
+
+  useEffect(() => {
+    if (!db) {
+      setLoading(false);
+      return;
+    }
+
+    let unsubscribed = false;
+    let latestRun = 0;
+    const storeConfig = config.stores.find(store => store.name === storeName);
+    const builtQuery = buildRef.current(query<V>(storeName) as StoreQuery<V, N>);
+    const options = builtQuery.toOptions();
+    let results: V[] = [];
+
+    // A slower earlier run must not overwrite the results of a later one.
+    const loadData = async () => {
+      const run = ++latestRun;
+      try {
+        const result = await builtQuery.toArray();
+        if (unsubscribed || run !== latestRun) return;
+        results = result;
+        setData(result);
+        setError(null);
+      } catch (err) {
+        if (unsubscribed || run !== latestRun) return;
+        setError(err as Error);
+      }
+      setLoading(false);
+    };
+
+    setLoading(true);
+    loadData();
+
+    const subscription = subscribeChanges<V>(storeName, (changeSet) => {
+      if (changeAffectsQuery(changeSet, storeConfig, options, results)) {
+        loadData();
+      }
+    });
+
+    return () => {
+      unsubscribed = true;
+      subscription.unsubscribe();
+    };
+  }, [db, config, storeName, query, subscribeChanges, depsVersion]);
+
+  return { data, loading, error };
+}
@@ -0,0 +1,185 @@
+import { useState, useEffect, useContext, useCallback, useRef } from 'react';
+import { IndexedDBContext } from '../context/IndexedDBContext';
+import { compareKeys, isValidKey } from '../core/keys';
+import {
+  RegisteredSchema,
+  ResolvedValue,
+  StoreKey,
+  StoreName
+} from '../types';
+
+export type RecordUpdate<T> = Partial<T> | ((current: T) => T);
+
+export interface UseRecordReturn<T> {
+  data: T | undefined;
+  loading: boolean;
+  error: Error | null;
+  notFound: boolean;
+  update: (changes: RecordUpdate<T>) => Promise<void>;
+  remove: () => Promise<void>;
+}
+
+export function useRecord<
+  T = never,
+  N extends StoreName<RegisteredSchema> = StoreName<RegisteredSchema>
+>(
+  storeName: N,
+  key: StoreKey<RegisteredSchema, N>
+): UseRecordReturn<ResolvedValue<T, RegisteredSchema, N>> {
+  type V = ResolvedValue<T, RegisteredSchema, N>;
+
+  const context = useContext(IndexedDBContext);
+  const [data, setData] = useState<V | undefined>(undefined);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const keyRef = useRef<IDBValidKey>(key);
+
+  if (!context) {
+    throw new Error('useRecord must be used within IndexedDBProvider');
+  }
+
+  // Compound keys are new arrays on every render; only a different key starts a new subscription.
+  // Keys that are not valid IndexedDB keys (such as an id that has not loaded yet) have no record.
+  if (compareKeys(keyRef.current, key) !== 0) {
+    keyRef.current = key;
+  }
+  const recordKey = keyRef.current;
+
+  const { db, config, executeTransaction, transaction, subscribeRecord } = context;
+  const storeConfig = config.stores.find(store => store.name === storeName);
+  const keyPath = storeConfig?.keyPath;
+  const encrypted = storeConfig?.encryption !== undefined;
+
+  useEffect(() => {
+    if (!isValidKey(recordKey)) {
+      setData(undefined);
+      setError(null);
+      setLoading(false);
+      return;
+    }
+
+    // Until the database is (re)connected nothing has been read, so the record is not missing yet.
+    if (!db) {
+      setData(undefined);
+      setError(null);
+      setLoading(true);
+      return;
+    }
+
+    let active = true;
+    let latestRun = 0;
+
+    const show = (record: V | undefined) => {
+      setData(record);
+      setError(null);
+      setLoading(false);
+    };
+
+    const load = async () => {
+      const run = ++latestRun;
+      try {
+        const [record] = await executeTransaction<[V | undefined]>({
+          store: storeName,
+          mode: 'readonly',
+          operations: [{ type: 'get', key: recordKey }]
+        });
+        if (active && run === latestRun) {
+          show(record);
+        }
+      } catch (err) {
+        if (active && run === latestRun) {
+          setError(err as Error);
+          setLoading(false);
+        }
+      }
+    };
+
+    setData(undefined);
+    setLoading(true);
+    load();
+
+    // Changes carry the written record, so the key is only re-read when a change does not say
+    // which record it wrote.
+    const subscription = subscribeRecord<V>(storeName, recordKey, change => {
+      if (change.type === 'clear' || (change.type === 'delete' && change.key !== undefined)) {
+        latestRun++;
+        show(undefined);
+      } else if (change.key !== undefined && change.value !== undefined) {
+        latestRun++;
+        show(change.value);
+      } else {
+        load();
+      }
+    });
+
+    return () => {
+      active = false;
+      subscription.unsubscribe();
+    };
+  }, [db, storeName, recordKey, executeTransaction, subscribeRecord]);
+
+  // Reads and writes in one transaction, so concurrent updates to other fields are not lost.
+  // Encryption cannot run inside a transaction, so encrypted records are read and written in two.
+  const update = useCallback(async (changes: RecordUpdate<V>): Promise<void> => {
+    const apply = (current: V | undefined): V => {
+      if (current === undefined) {
+        throw new Error(`Record ${String(recordKey)} not found in store "${storeName}"`);
+      }
+      return typeof changes === 'function'
+        ? (changes as (current: V) => V)(current)
+        : { ...current, ...changes } as V;
+    };
+
+    try {
+      if (!isValidKey(recordKey)) {
+        apply(undefined);
+      }
+
+      if (encrypted) {
+        const [current] = await executeTransaction<[V | undefined]>({
+          store: storeName,
+          mode: 'readonly',
+          operations: [{ type: 'get', key: recordKey }]
+        });
+        await executeTransaction({
+          store: storeName,
+          mode: 'readwrite',
+          operations: [{ type: 'put', data: apply(current), key: keyPath ? undefined : recordKey }]
+        });
+        return;
+      }
+
+      await transaction(storeName, 'readwrite', async scope => {
+        const store = scope.store(storeName);
+        const current = await store.get(recordKey) as V | undefined;
+        await store.put(apply(current), keyPath ? undefined : recordKey);
+      });
+    } catch (err) {
+      setError(err as Error);
+      throw err;
+    }
+  }, [storeName, recordKey, keyPath, encrypted, executeTransaction, transaction]);
+
+  const remove = useCallback(async (): Promise<void> => {
+    if (!isValidKey(recordKey)) return;
+    try {
+      await executeTransaction({
+        store: storeName,
+        mode: 'readwrite',
+        operations: [{ type: 'delete', key: recordKey }]
+      });
+    } catch (err) {
+      setError(err as Error);
+      throw err;
+    }
+  }, [storeName, recordKey, executeTransaction]);
+
+  return {
+    data,
+    loading,
+    error,
+    notFound: !loading && error === null && data === undefined,
+    update,
+    remove
+  };
+}
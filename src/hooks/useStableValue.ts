@@ -0,0 +1,12 @@
+import { useRef } from 'react';
+import { resourceKey } from '../core/suspense';
+
+// Keeps returning the previous value while a new one is equal to it by content, so a key range or
+// key written inline in a component does not count as a changed dependency on every render.
+export function useStableValue<T>(value: T): T {
+  const ref = useRef(value);
+  if (ref.current !== value && resourceKey(ref.current) !== resourceKey(value)) {
+    ref.current = value;
+  }
+  return ref.current;
+}
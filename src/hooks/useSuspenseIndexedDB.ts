@@ -0,0 +1,71 @@
+import { useMemo } from 'react';
+import {
+  RegisteredSchema,
+  ResolvedValue,
+  StoreIndexName,
+  StoreKey,
+  StoreName,
+  UseIndexedDBOptions,
+  UseIndexedDBReturn
+} from '../types';
+import { useIndexedDB } from './useIndexedDB';
+import { useSuspenseLiveQuery } from './useSuspenseLiveQuery';
+
+export type UseSuspenseIndexedDBOptions<T = unknown, R = T, I extends string = string> =
+  Omit<UseIndexedDBOptions<T, R, I>, 'eager' | 'optimistic'>;
+
+export type UseSuspenseIndexedDBReturn<
+  T = unknown,
+  K extends IDBValidKey = IDBValidKey,
+  I extends string = string,
+  R = T
+> = Omit<
+  UseIndexedDBReturn<T, K, I, R>,
+  'data' | 'loading' | 'error' | 'refresh' | 'mutations' | 'clearMutations'
+> & {
+  data: R[];
+};
+
+export function useSuspenseIndexedDB<
+  T = never,
+  N extends StoreName<RegisteredSchema> = StoreName<RegisteredSchema>,
+  R = ResolvedValue<T, RegisteredSchema, N>
+>(
+  storeName: N,
+  options: UseSuspenseIndexedDBOptions<
+    ResolvedValue<T, RegisteredSchema, N>,
+    R,
+    StoreIndexName<RegisteredSchema, N>
+  > = {}
+): UseSuspenseIndexedDBReturn<
+  ResolvedValue<T, RegisteredSchema, N>,
+  StoreKey<RegisteredSchema, N>,
+  StoreIndexName<RegisteredSchema, N>,
+  R
+> {
+  const { select, query, index, limit } = options;
+  const { data: records } = useSuspenseLiveQuery<T, N>({ storeName, query, index, count: limit });
+  // Reads come from the suspense cache, so the regular handle is only used for its writes.
+  const handle = useIndexedDB<T, N>(storeName, { eager: false });
+
+  const data = useMemo(
+    () => select ? records.map(record => select(record)) : records as unknown as R[],
+    [records, select]
+  );
+
+  return {
+    data,
+    add: handle.add,
+    put: handle.put,
+    delete: handle.delete,
+    clear: handle.clear,
+    get: handle.get,
+    getAll: handle.getAll,
+    count: handle.count,
+    find: handle.find,
+    bulkAdd: handle.bulkAdd,
+    bulkPut: handle.bulkPut,
+    bulkGet: handle.bulkGet,
+    bulkDelete: handle.bulkDelete
+  };
+}
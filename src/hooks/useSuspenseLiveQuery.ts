@@ -0,0 +1,59 @@
+import { useState, useEffect, useContext } from 'react';
+import { IndexedDBContext } from '../context/IndexedDBContext';
+import { resourceKey } from '../core/suspense';
+import {
+  QueryOptions,
+  RegisteredSchema,
+  ResolvedValue,
+  StoreIndexName,
+  StoreName
+} from '../types';
+import { LiveQueryOptions } from './useLiveQuery';
+
+export interface SuspenseQueryResult<D> {
+  data: D;
+}
+
+export function useSuspenseLiveQuery<
+  T = never,
+  N extends StoreName<RegisteredSchema> = StoreName<RegisteredSchema>
+>(
+  options: LiveQueryOptions<N, StoreIndexName<RegisteredSchema, N>>
+): SuspenseQueryResult<ResolvedValue<T, RegisteredSchema, N>[]> {
+  type V = ResolvedValue<T, RegisteredSchema, N>;
+
+  const context = useContext(IndexedDBContext);
+  const [, setVersion] = useState(0);
+
+  if (!context) {
+    throw new Error('useSuspenseLiveQuery must be used within IndexedDBProvider');
+  }
+
+  const { executeTransaction, suspenseCache } = context;
+  const { storeName } = options;
+  const queryOptions: QueryOptions = {
+    query: options.query,
+    index: options.index,
+    direction: options.direction,
+    offset: options.offset,
+    limit: options.count
+  };
+  const key = resourceKey('find', storeName, queryOptions);
+
+  // Throws while the query loads; the manager reloads it when the store changes.
+  const data = suspenseCache.read(key, [storeName], async () => {
+    const [records] = await executeTransaction<[V[]]>({
+      store: storeName,
+      mode: 'readonly',
+      operations: [{ type: 'find', options: queryOptions }]
+    });
+    return records;
+  });
+
+  useEffect(() => {
+    const subscription = suspenseCache.subscribe(key, () => setVersion(version => version + 1));
+    return () => subscription.unsubscribe();
+  }, [suspenseCache, key]);
+
+  return { data };
+}
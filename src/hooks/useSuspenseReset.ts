@@ -0,0 +1,15 @@
+import { useContext, useCallback } from 'react';
+import { IndexedDBContext } from '../context/IndexedDBContext';
+
+// Failed suspense reads stay cached so a retried render fails the same way instead of loading
+// forever; the returned callback drops them, for an error boundary to call when it resets.
+export function useSuspenseReset(): () => void {
+  const context = useContext(IndexedDBContext);
+
+  if (!context) {
+    throw new Error('useSuspenseReset must be used within IndexedDBProvider');
+  }
+
+  const { suspenseCache } = context;
+  return useCallback(() => suspenseCache.clearErrors(), [suspenseCache]);
+}
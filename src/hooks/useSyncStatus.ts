@@ -0,0 +1,32 @@
+import { useState, useEffect, useContext, useCallback } from 'react';
+import { IndexedDBContext } from '../context/IndexedDBContext';
+import { SyncStatus } from '../types';
+
+export interface UseSyncStatusReturn extends SyncStatus {
+  sync: () => Promise<void>;
+}
+
+export function useSyncStatus(): UseSyncStatusReturn {
+  const context = useContext(IndexedDBContext);
+
+  if (!context) {
+    throw new Error('useSyncStatus must be used within IndexedDBProvider');
+  }
+
+  const { sync: engine } = context;
+  if (!engine) {
+    throw new Error('useSyncStatus requires the provider to be created with sync options');
+  }
+
+  const [status, setStatus] = useState<SyncStatus>(() => engine.getStatus());
+
+  useEffect(() => {
+    setStatus(engine.getStatus());
+    const subscription = engine.onStatusChange(setStatus);
+    return () => subscription.unsubscribe();
+  }, [engine]);
+
+  const sync = useCallback(() => engine.sync(), [engine]);
+
+  return { ...status, sync };
+}
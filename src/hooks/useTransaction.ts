@@ -1,19 +1,64 @@
 import { useContext, useCallback, useState } from 'react';
 import { IndexedDBContext } from '../context/IndexedDBContext';
-import { Transaction, Operation } from '../types';
+import {
+  Transaction,
+  Operation,
+  QueryOptions,
+  RegisteredSchema,
+  ResolvedValue,
+  StoreIndexName,
+  StoreKey,
+  StoreName,
+  StoreValue,
+  UntypedSchema
+} from '../types';
 
-export interface TransactionBuilder {
-  add: (data: any, key?: IDBValidKey) => TransactionBuilder;
-  put: (data: any, key?: IDBValidKey) => TransactionBuilder;
-  delete: (key: IDBValidKey | IDBKeyRange) => TransactionBuilder;
-  clear: () => TransactionBuilder;
-  get: (key: IDBValidKey) => TransactionBuilder;
-  getAll: (query?: IDBKeyRange | IDBValidKey, count?: number) => TransactionBuilder;
-  count: (query?: IDBKeyRange | IDBValidKey) => TransactionBuilder;
-  execute: <T = any>() => Promise<T>;
+// `C` is the store the next operation targets and `N` the stores the transaction spans.
+export interface TransactionBuilder<
+  R extends unknown[] = [],
+  S = UntypedSchema,
+  C extends StoreName<S> = StoreName<S>,
+  N extends StoreName<S> = StoreName<S>
+> {
+  store: <M extends N>(storeName: M) => TransactionBuilder<R, S, M, N>;
+  add: (
+    data: StoreValue<S, C>,
+    key?: StoreKey<S, C>
+  ) => TransactionBuilder<[...R, StoreKey<S, C>], S, C, N>;
+  put: (
+    data: StoreValue<S, C>,
+    key?: StoreKey<S, C>
+  ) => TransactionBuilder<[...R, StoreKey<S, C>], S, C, N>;
+  delete: (key: StoreKey<S, C> | IDBKeyRange) => TransactionBuilder<[...R, undefined], S, C, N>;
+  clear: () => TransactionBuilder<[...R, undefined], S, C, N>;
+  get: <T = never>(
+    key: StoreKey<S, C>
+  ) => TransactionBuilder<[...R, ResolvedValue<T, S, C> | undefined], S, C, N>;
+  getAll: <T = never>(
+    query?: IDBKeyRange | StoreKey<S, C>,
+    count?: number
+  ) => TransactionBuilder<[...R, ResolvedValue<T, S, C>[]], S, C, N>;
+  count: (query?: IDBKeyRange | StoreKey<S, C>) => TransactionBuilder<[...R, number], S, C, N>;
+  find: <T = never>(
+    options: QueryOptions<ResolvedValue<T, S, C>, StoreIndexName<S, C>>
+  ) => TransactionBuilder<[...R, ResolvedValue<T, S, C>[]], S, C, N>;
+  execute: () => Promise<R>;
 }
 
-export function useTransaction(storeName: string, mode: IDBTransactionMode = 'readwrite') {
+export interface UseTransactionReturn<N extends StoreName<RegisteredSchema>> {
+  createTransaction: () => TransactionBuilder<[], RegisteredSchema, N, N>;
+  isExecuting: boolean;
+  error: Error | null;
+}
+
+export function useTransaction<N extends StoreName<RegisteredSchema>>(
+  storeNames: N | N[],
+  mode?: IDBTransactionMode
+): UseTransactionReturn<N>;
+export function useTransaction(
+  storeNames: string | string[],
+  mode: IDBTransactionMode = 'readwrite'
+): UseTransactionReturn<StoreName<RegisteredSchema>> {
   const context = useContext(IndexedDBContext);
   const [isExecuting, setIsExecuting] = useState(false);
   const [error, setError] = useState<Error | null>(null);
@@ -23,53 +68,67 @@ export function useTransaction(storeName: string, mode: IDBTransactionMode = 're
   }
 
   const { executeTransaction } = context;
+  const scope = Array.isArray(storeNames) ? storeNames.join('\u0000') : storeNames;
 
-  const createTransactionBuilder = useCallback((): TransactionBuilder => {
+  const createTransactionBuilder = useCallback((): TransactionBuilder<[], RegisteredSchema> => {
+    const stores = scope.split('\u0000');
     const operations: Operation[] = [];
+    let currentStore = stores[0];
 
-    const builder: TransactionBuilder = {
-      add: (data: any, key?: IDBValidKey) => {
-        operations.push({ type: 'add', data, key });
+    const builder: TransactionBuilder<never> = {
+      store: (storeName: string) => {
+        if (!stores.includes(storeName)) {
+          throw new Error(`Store "${storeName}" is not part of this transaction`);
+        }
+        currentStore = storeName;
         return builder;
       },
-      put: (data: any, key?: IDBValidKey) => {
-        operations.push({ type: 'put', data, key });
+      add: (data: unknown, key?: IDBValidKey) => {
+        operations.push({ store: currentStore, type: 'add', data, key });
+        return builder;
+      },
+      put: (data: unknown, key?: IDBValidKey) => {
+        operations.push({ store: currentStore, type: 'put', data, key });
         return builder;
       },
       delete: (key: IDBValidKey | IDBKeyRange) => {
-        operations.push({ type: 'delete', key });
+        operations.push({ store: currentStore, type: 'delete', key });
         return builder;
       },
       clear: () => {
-        operations.push({ type: 'clear' });
+        operations.push({ store: currentStore, type: 'clear' });
         return builder;
       },
       get: (key: IDBValidKey) => {
-        operations.push({ type: 'get', key });
+        operations.push({ store: currentStore, type: 'get', key });
         return builder;
       },
       getAll: (query?: IDBKeyRange | IDBValidKey, count?: number) => {
-        operations.push({ type: 'getAll', query, data: count });
+        operations.push({ store: currentStore, type: 'getAll', query, data: count });
         return builder;
       },
       count: (query?: IDBKeyRange | IDBValidKey) => {
-        operations.push({ type: 'count', query });
+        operations.push({ store: currentStore, type: 'count', query });
+        return builder;
+      },
+      find: (options: QueryOptions) => {
+        operations.push({ store: currentStore, type: 'find', options });
         return builder;
       },
-      execute: async <T = any>() => {
+      execute: async () => {
         try {
           setIsExecuting(true);
           setError(null);
           
           const transaction: Transaction = {
-            store: storeName,
+            store: stores,
             mode,
             operations
           };
           
-          const result = await executeTransaction<T>(transaction);
+          const result = await executeTransaction(transaction);
           setIsExecuting(false);
-          return result;
+          return result as never;
         } catch (err) {
           const error = err as Error;
           setError(error);
@@ -79,8 +138,9 @@ export function useTransaction(storeName: string, mode: IDBTransactionMode = 're
       }
     };
 
-    return builder;
-  }, [storeName, mode, executeTransaction]);
+    // The builder is untyped at runtime; its schema typing only exists for callers.
+    return builder as unknown as TransactionBuilder<[], RegisteredSchema>;
+  }, [scope, mode, executeTransaction]);
 
   return {
     createTransaction: createTransactionBuilder,
@@ -0,0 +1,62 @@
+import { useState, useEffect, useContext, useRef } from 'react';
+import { IndexedDBContext } from '../context/IndexedDBContext';
+import { ViewDefinition } from '../types';
+import { LiveQueryResult } from './useLiveQuery';
+
+// Views are identified by name, so a definition written inline does not reload on every render.
+export function useView<R>(view: ViewDefinition<R>): LiveQueryResult<R | undefined> {
+  const context = useContext(IndexedDBContext);
+  const viewRef = useRef(view);
+  const [data, setData] = useState<R | undefined>(undefined);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  if (!context) {
+    throw new Error('useView must be used within IndexedDBProvider');
+  }
+
+  const { db, getView, subscribeChanges } = context;
+  viewRef.current = view;
+  const { name } = view;
+
+  useEffect(() => {
+    if (!db) {
+      setLoading(false);
+      return;
+    }
+
+    let unsubscribed = false;
+    let latestRun = 0;
+    const current = viewRef.current;
+
+    // The manager drops the cached result before notifying, so this recomputes at most once per
+    // change however many components show the view.
+    const loadView = async () => {
+      const run = ++latestRun;
+      try {
+        const result = await getView(current);
+        if (unsubscribed || run !== latestRun) return;
+        setData(result);
+        setError(null);
+      } catch (err) {
+        if (unsubscribed || run !== latestRun) return;
+        setError(err as Error);
+      }
+      setLoading(false);
+    };
+
+    setLoading(true);
+    loadView();
+
+    const subscriptions = current.stores.map(storeName => subscribeChanges(storeName, () => {
+      loadView();
+    }));
+
+    return () => {
+      unsubscribed = true;
+      subscriptions.forEach(subscription => subscription.unsubscribe());
+    };
+  }, [db, name, getView, subscribeChanges]);
+
+  return { data, loading, error };
+}
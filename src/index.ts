@@ -1,24 +1,139 @@
 export { IndexedDBManager } from './core/IndexedDBManager';
+export {
+  SchemaMismatchError,
+  TransactionError,
+  BulkError,
+  ConnectionError,
+  ValidationError
+} from './core/errors';
+export { QueryBuilder, WhereClause } from './core/QueryBuilder';
+export { TransactionScope, TransactionStore } from './core/TransactionScope';
+export { applyChangeSet, changeAffectsQuery, recordChange } from './core/changes';
+export { SyncEngine } from './core/sync';
+export { defineView } from './core/views';
+export { fetchPage, applyPageChanges } from './core/pagination';
+export { SuspenseCache, resourceKey } from './core/suspense';
+export {
+  createBroadcastChannel,
+  createStorageChannel,
+  createDefaultChannel,
+  MemoryChannelHub
+} from './core/channel';
 export { IndexedDBProvider, IndexedDBContext } from './context/IndexedDBContext';
 export { useIndexedDB } from './hooks/useIndexedDB';
 export { useIndexedDBStore } from './hooks/useIndexedDBStore';
 export { useTransaction } from './hooks/useTransaction';
 export { useLiveQuery } from './hooks/useLiveQuery';
+export { useQuery } from './hooks/useQuery';
+export { useSyncStatus } from './hooks/useSyncStatus';
+export { useView } from './hooks/useView';
+export { usePaginatedQuery } from './hooks/usePaginatedQuery';
+export { useRecord } from './hooks/useRecord';
+export { useSuspenseIndexedDB } from './hooks/useSuspenseIndexedDB';
+export { useSuspenseLiveQuery } from './hooks/useSuspenseLiveQuery';
+export { useSuspenseReset } from './hooks/useSuspenseReset';
 
 export type {
+  StoreSchema,
+  UntypedSchema,
+  Register,
+  RegisteredSchema,
+  StoreName,
+  StoreValue,
+  StoreKey,
+  StoreIndexName,
+  ResolvedValue,
+  FieldPath,
   DatabaseConfig,
+  StoreConfigFor,
   StoreConfig,
   IndexConfig,
+  ViewDefinition,
+  ViewOptions,
+  ViewSources,
+  RecordValidator,
+  ValidatorFunction,
+  ValidationIssue,
+  StandardSchemaV1,
+  StandardSchemaResult,
+  StandardSchemaIssue,
+  QuarantinedRecord,
+  Middleware,
+  MiddlewareContext,
+  MiddlewareAction,
+  EncryptionConfig,
+  EncryptionKeys,
+  Migration,
+  MigrationContext,
+  SchemaDifference,
+  SchemaDifferenceType,
   QueryOptions,
+  QueryPosition,
   Transaction,
+  TransactionCallback,
+  OperationResult,
+  BulkOptions,
+  BulkProgress,
+  BulkFailure,
+  BulkResult,
+  TransferFormat,
+  ExportOptions,
+  ExportedStore,
+  ExportHeader,
+  ImportSource,
+  ImportOptions,
+  ImportProgress,
+  ImportResult,
+  SyncRevision,
+  SyncMutation,
+  RemoteChange,
+  SyncPushOutcome,
+  SyncPullRequest,
+  SyncPullResult,
+  SyncTransport,
+  SyncConflict,
+  ConflictResolver,
+  ConflictStrategy,
+  SyncOptions,
+  SyncState,
+  SyncStatus,
+  SyncStatusListener,
   Operation,
   SubscriptionCallback,
+  ChangeCallback,
+  RecordCallback,
+  ChangeSet,
+  ChangeType,
+  StoreChange,
+  ChangeMessage,
+  ChangeChannel,
+  ChangeChannelFactory,
+  ManagerOptions,
+  ConnectionStatus,
+  StatusListener,
+  ConnectionPolicy,
   Subscription,
   IndexedDBState,
+  UseIndexedDBOptions,
+  OptimisticMutation,
   UseIndexedDBReturn,
   IndexedDBContextValue
 } from './types';
 
 export type { IndexedDBProviderProps } from './context/IndexedDBContext';
-export type { TransactionBuilder } from './hooks/useTransaction';
-export type { LiveQueryOptions } from './hooks/useLiveQuery';
\ No newline at end of file
+export type { TransactionBuilder, UseTransactionReturn } from './hooks/useTransaction';
+export type { QueryResult } from './hooks/useQuery';
+export type { UseSyncStatusReturn } from './hooks/useSyncStatus';
+export type { UseRecordReturn, RecordUpdate } from './hooks/useRecord';
+export type {
+  UseSuspenseIndexedDBOptions,
+  UseSuspenseIndexedDBReturn
+} from './hooks/useSuspenseIndexedDB';
+export type { SuspenseQueryResult } from './hooks/useSuspenseLiveQuery';
+export type { Page, PageQuery } from './core/pagination';
+export type {
+  PaginatedQueryOptions,
+  PaginatedQueryResult,
+  PageInfo
+} from './hooks/usePaginatedQuery';
+export type { LiveQueryOptions, LiveQuerier, LiveQueryResult } from './hooks/useLiveQuery';
\ No newline at end of file
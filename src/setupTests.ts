@@ -3,9 +3,9 @@ import { IDBFactory } from 'fake-indexeddb';
 
 // Polyfill for structuredClone in Node.js test environment
 if (typeof structuredClone === 'undefined') {
-  global.structuredClone = (obj: any) => {
+  globalThis.structuredClone = (obj: any) => {
     return JSON.parse(JSON.stringify(obj));
   };
 }
 
-global.indexedDB = new IDBFactory();
\ No newline at end of file
+globalThis.indexedDB = new IDBFactory();
\ No newline at end of file
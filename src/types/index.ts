@@ -1,44 +1,450 @@
-export interface DatabaseConfig {
+import type { QueryBuilder } from '../core/QueryBuilder';
+import type { TransactionScope } from '../core/TransactionScope';
+import type { SyncEngine } from '../core/sync';
+import type { SuspenseCache } from '../core/suspense';
+
+export interface StoreSchema {
+  value: unknown;
+  key?: IDBValidKey;
+  indexes?: string;
+}
+
+// Without a registered schema, records are `unknown` until a value type argument narrows them.
+export interface UntypedSchema {
+  [storeName: string]: { value: unknown; key: IDBValidKey; indexes: string };
+}
+
+// Augment with `schema` to type the hooks, which have no manager to carry a schema parameter.
+export interface Register {}
+
+export type RegisteredSchema = Register extends { schema: infer S } ? S : UntypedSchema;
+
+export type StoreName<S> = Extract<keyof S, string>;
+
+export type StoreValue<S, N extends StoreName<S>> = S[N] extends { value: infer V } ? V : unknown;
+
+export type StoreKey<S, N extends StoreName<S>> =
+  S[N] extends { key: infer K extends IDBValidKey } ? K : IDBValidKey;
+
+export type StoreIndexName<S, N extends StoreName<S>> =
+  S[N] extends { indexes: infer I } ? Extract<I, string> : never;
+
+// Blocks inference from an argument, so a record passed to `put` is checked against the schema
+// instead of widening `T` to whatever was passed.
+export type NoInferValue<T> = [T][T extends unknown ? 0 : never];
+
+// An explicit value type argument wins over the schema, which keeps `useIndexedDB<User>('users')`
+// working for untyped databases.
+export type ResolvedValue<T, S, N extends StoreName<S>> = [T] extends [never] ? StoreValue<S, N> : T;
+
+export type FieldPath<T> = T extends object
+  ? Extract<keyof T, string> | `${Extract<keyof T, string>}.${string}`
+  : string;
+
+export interface DatabaseConfig<S = UntypedSchema> {
   name: string;
   version: number;
-  stores: StoreConfig[];
+  stores: StoreConfigFor<S>[];
+  migrations?: Migration[];
+  strict?: boolean;
+  views?: ViewDefinition[];
 }
 
-export interface StoreConfig {
-  name: string;
+export type StoreConfigFor<S> = {
+  [N in StoreName<S>]: StoreConfig<N, StoreIndexName<S, N>, StoreValue<S, N>>;
+}[StoreName<S>];
+
+export interface StoreConfig<N extends string = string, I extends string = string, V = unknown> {
+  name: N;
   keyPath?: string;
   autoIncrement?: boolean;
-  indexes?: IndexConfig[];
+  indexes?: IndexConfig<I>[];
+  validator?: RecordValidator<V>;
+  validateOnRead?: boolean;
+  encryption?: EncryptionConfig<V>;
 }
 
-export interface IndexConfig {
+export interface EncryptionConfig<V = unknown> {
+  fields: FieldPath<V>[];
+  // Encrypted fields whose stored value is replaced by a keyed hash, so an index on them still
+  // answers equality lookups.
+  blindIndex?: FieldPath<V>[];
+}
+
+export interface EncryptionKeys {
+  key: CryptoKey;
+  blindIndexKey?: CryptoKey;
+}
+
+export type ViewSources<S, N extends StoreName<S>> = { [K in N]: StoreValue<S, K>[] };
+
+export interface ViewOptions {
+  persist?: boolean;
+}
+
+export interface ViewDefinition<R = unknown> {
   name: string;
+  stores: string[];
+  // Runs synchronously over a consistent snapshot of every source store.
+  compute: (sources: Record<string, unknown[]>) => R;
+  persist: boolean;
+}
+
+export interface ValidationIssue {
+  message: string;
+  path: Array<string | number>;
+}
+
+// Returning `false`, a message or a non-empty issue list rejects the record.
+export type ValidatorFunction<T = unknown> = (
+  value: T
+) => boolean | string | ValidationIssue[] | void;
+
+// The subset of the Standard Schema interface (https://standardschema.dev) the manager relies on.
+export interface StandardSchemaV1<T = unknown> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<T> | Promise<StandardSchemaResult<T>>;
+  };
+}
+
+export type StandardSchemaResult<T> =
+  | { readonly value: T; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+export interface StandardSchemaIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+export type RecordValidator<T = unknown> = ValidatorFunction<T> | StandardSchemaV1<T>;
+
+export interface QuarantinedRecord {
+  storeName: string;
+  key?: IDBValidKey;
+  value: unknown;
+  issues: ValidationIssue[];
+}
+
+export interface IndexConfig<I extends string = string> {
+  name: I;
   keyPath: string | string[];
   unique?: boolean;
   multiEntry?: boolean;
 }
 
-export interface QueryOptions {
+export interface Migration {
+  version: number;
+  migrate: (context: MigrationContext) => void | Promise<void>;
+}
+
+export interface MigrationContext {
+  db: IDBDatabase;
+  transaction: IDBTransaction;
+  oldVersion: number;
+  newVersion: number;
+  createStore: (config: StoreConfig) => IDBObjectStore;
+  deleteStore: (storeName: string) => void;
+  createIndex: (storeName: string, index: IndexConfig) => IDBIndex;
+  deleteIndex: (storeName: string, indexName: string) => void;
+  updateRecords: <T = unknown>(
+    storeName: string,
+    updater: (record: T, key: IDBValidKey) => T | void
+  ) => Promise<number>;
+  deleteRecords: <T = unknown>(
+    storeName: string,
+    predicate: (record: T, key: IDBValidKey) => boolean
+  ) => Promise<number>;
+}
+
+export type SchemaDifferenceType =
+  | 'missingStore'
+  | 'keyPathMismatch'
+  | 'autoIncrementMismatch'
+  | 'missingIndex'
+  | 'extraIndex'
+  | 'indexMismatch';
+
+export interface SchemaDifference {
+  type: SchemaDifferenceType;
+  store: string;
   index?: string;
+  message: string;
+}
+
+export interface QueryOptions<T = unknown, I extends string = string> {
+  query?: IDBKeyRange | IDBValidKey;
+  index?: I;
   direction?: IDBCursorDirection;
   limit?: number;
   offset?: number;
+  // A method, so options typed for a store can be passed where the record type is not known.
+  filter?(value: T): boolean;
+  orderBy?: string | string[];
+  // Keyset pagination: start strictly after this position in the scan direction.
+  after?: QueryPosition;
+}
+
+// A place in a store or index scan: the index key (the primary key when scanning the store) and
+// the primary key, which orders records that share an index key.
+export interface QueryPosition {
+  key: IDBValidKey;
+  primaryKey: IDBValidKey;
 }
 
 export interface Transaction {
-  store: string;
+  store: string | string[];
   mode?: IDBTransactionMode;
   operations: Operation[];
 }
 
-export interface Operation {
-  type: 'add' | 'put' | 'delete' | 'clear' | 'get' | 'getAll' | 'count';
-  data?: any;
-  key?: IDBValidKey | IDBKeyRange;
-  query?: IDBKeyRange | IDBValidKey;
+export type OperationResult<T = unknown> =
+  | { status: 'fulfilled'; value: T }
+  | { status: 'rejected'; reason: Error };
+
+export interface BulkOptions {
+  chunkSize?: number;
+  continueOnError?: boolean;
+  onProgress?: (progress: BulkProgress) => void;
+}
+
+export interface BulkProgress {
+  completed: number;
+  total: number;
+  failed: number;
+}
+
+export interface BulkFailure {
+  index: number;
+  error: Error;
 }
 
-export type SubscriptionCallback<T = any> = (data: T[]) => void;
+export interface BulkResult<R> {
+  results: Array<R | undefined>;
+  failures: BulkFailure[];
+}
+
+export type TransactionCallback<R, S = UntypedSchema, N extends StoreName<S> = StoreName<S>> = (
+  tx: TransactionScope<S, N>
+) => Promise<R> | R;
+
+interface OperationBase {
+  store?: string;
+}
+
+export type Operation<T = any> = OperationBase & (
+  | { type: 'add' | 'put'; data: T; key?: IDBValidKey }
+  | { type: 'delete'; key?: IDBValidKey | IDBKeyRange; options?: QueryOptions<T> }
+  | { type: 'clear' }
+  | { type: 'get'; key: IDBValidKey }
+  | { type: 'getAll'; query?: IDBKeyRange | IDBValidKey; data?: number }
+  | { type: 'count'; query?: IDBKeyRange | IDBValidKey; options?: QueryOptions<T> }
+  | { type: 'find' | 'keys'; options?: QueryOptions<T> }
+);
+
+export type TransferFormat = 'ndjson' | 'json';
+
+export interface ExportOptions {
+  format?: TransferFormat;
+  stores?: string[];
+  batchSize?: number;
+}
+
+export interface ExportedStore {
+  name: string;
+  keyPath?: string;
+  autoIncrement?: boolean;
+  indexes?: IndexConfig[];
+  count?: number;
+}
+
+export interface ExportHeader {
+  format: 'use-indexdb';
+  version: 1;
+  database: {
+    name: string;
+    version: number;
+    stores: ExportedStore[];
+  };
+}
+
+export type ImportSource = string | Iterable<string> | AsyncIterable<string> | ReadableStream<string>;
+
+export interface ImportOptions {
+  mode?: 'merge' | 'replace';
+  batchSize?: number;
+  onProgress?: (progress: ImportProgress) => void;
+}
+
+// `total` comes from the record counts in the export header.
+export interface ImportProgress {
+  completed: number;
+  total?: number;
+}
+
+export interface ImportResult {
+  imported: Record<string, number>;
+}
+
+export type SyncRevision = string | number;
+
+export interface SyncMutation {
+  id: number;
+  store: string;
+  type: 'put' | 'delete' | 'clear';
+  key?: IDBValidKey;
+  value?: unknown;
+  // The server revision the local change was made against; null for records the server has not
+  // acknowledged yet.
+  baseRevision: SyncRevision | null;
+  timestamp: number;
+}
+
+export interface RemoteChange {
+  store: string;
+  key: IDBValidKey;
+  value?: unknown;
+  deleted?: boolean;
+  revision: SyncRevision;
+  updatedAt?: number;
+}
+
+export type SyncPushOutcome =
+  | { status: 'applied'; revision?: SyncRevision }
+  | { status: 'conflict'; remote: RemoteChange };
+
+export interface SyncPullRequest {
+  cursor: string | null;
+  stores: string[];
+}
+
+export interface SyncPullResult {
+  changes: RemoteChange[];
+  cursor: string | null;
+  hasMore?: boolean;
+}
+
+// `push` resolves with one outcome per mutation, in order; mutations without one stay queued.
+export interface SyncTransport {
+  push: (mutations: SyncMutation[]) => Promise<SyncPushOutcome[]>;
+  pull: (request: SyncPullRequest) => Promise<SyncPullResult>;
+}
+
+export interface SyncConflict {
+  store: string;
+  key: IDBValidKey;
+  local: { type: 'put' | 'delete'; value?: unknown; timestamp: number };
+  remote: RemoteChange;
+}
+
+// Returns the merged record, or undefined to delete it. The result is stored and pushed.
+export type ConflictResolver = (conflict: SyncConflict) => unknown | Promise<unknown>;
+
+export type ConflictStrategy = 'lastWriteWins' | 'serverWins' | ConflictResolver;
+
+export interface SyncOptions {
+  transport: SyncTransport;
+  stores: string[];
+  conflict?: ConflictStrategy;
+  interval?: number;
+  batchSize?: number;
+}
+
+export type SyncState = 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  pending: number;
+  lastSyncedAt: number | null;
+  error: Error | null;
+}
+
+export type SyncStatusListener = (status: SyncStatus) => void;
+
+export interface MiddlewareContext {
+  storeName: string;
+  mode: IDBTransactionMode;
+  // Set when the middleware runs inside an open transaction and must not await anything else.
+  transaction?: IDBTransaction;
+}
+
+// Return a replacement operation to rewrite it, `{ result }` to answer it without touching the
+// store, nothing to pass it on unchanged, or throw to reject it.
+export type MiddlewareAction = Operation | { result: unknown } | void;
+
+export interface Middleware {
+  name?: string;
+  beforeOperation?: (
+    operation: Operation,
+    context: MiddlewareContext
+  ) => MiddlewareAction | Promise<MiddlewareAction>;
+  afterOperation?: (result: unknown, operation: Operation, context: MiddlewareContext) => unknown;
+}
+
+export type ChangeType = 'add' | 'update' | 'delete' | 'clear';
+
+export interface StoreChange<T = unknown> {
+  type: ChangeType;
+  key?: IDBValidKey;
+  value?: T;
+}
+
+export interface ChangeSet<T = unknown> {
+  storeName: string;
+  changes: StoreChange<T>[];
+  remote?: boolean;
+}
+
+export interface ChangeMessage {
+  changeSet: ChangeSet;
+}
+
+export interface ChangeChannel {
+  postMessage: (message: ChangeMessage) => void;
+  subscribe: (listener: (message: ChangeMessage) => void) => () => void;
+  close: () => void;
+}
+
+export type ChangeChannelFactory = (name: string) => ChangeChannel | null;
+
+export interface ManagerOptions {
+  crossTab?: boolean;
+  channelFactory?: ChangeChannelFactory;
+  autoReconnect?: boolean;
+  connection?: ConnectionPolicy;
+  onQuarantine?: (record: QuarantinedRecord) => void;
+  middleware?: Middleware[];
+  encryption?: EncryptionKeys;
+  sync?: SyncOptions;
+}
+
+export interface ConnectionPolicy {
+  timeout?: number;
+  retries?: number;
+  retryDelay?: number;
+  backoffFactor?: number;
+}
+
+export type ConnectionStatus =
+  | 'connecting'
+  | 'upgrading'
+  | 'blocked'
+  | 'open'
+  | 'closedByOtherTab'
+  | 'reconnecting'
+  | 'closed'
+  | 'error';
+
+export type StatusListener = (status: ConnectionStatus, event?: IDBVersionChangeEvent) => void;
+
+export type SubscriptionCallback<T = any> = (data: T[], changes?: ChangeSet<T>) => void;
+
+export type ChangeCallback<T = unknown> = (changes: ChangeSet<T>) => void;
+
+export type RecordCallback<T = unknown> = (change: StoreChange<T>) => void;
 
 export interface Subscription {
   unsubscribe: () => void;
@@ -48,25 +454,76 @@ export interface IndexedDBState {
   isLoading: boolean;
   error: Error | null;
   isConnected: boolean;
+  status: ConnectionStatus;
+}
+
+export interface UseIndexedDBOptions<T = unknown, R = T, I extends string = string> {
+  // Set to false for a write-only handle that never reads or subscribes to the store.
+  eager?: boolean;
+  // Show writes in `data` before they commit, and roll them back if they fail.
+  optimistic?: boolean;
+  select?: (record: T) => R;
+  query?: IDBKeyRange | IDBValidKey;
+  index?: I;
+  limit?: number;
+}
+
+export interface OptimisticMutation {
+  id: number;
+  type: 'add' | 'put' | 'delete' | 'clear';
+  key?: IDBValidKey | IDBKeyRange;
+  status: 'pending' | 'failed';
+  error?: Error;
 }
 
-export interface UseIndexedDBReturn<T = any> {
-  data: T | T[] | null;
+export interface UseIndexedDBReturn<
+  T = any,
+  K extends IDBValidKey = IDBValidKey,
+  I extends string = string,
+  R = T
+> {
+  data: R | R[] | null;
   loading: boolean;
   error: Error | null;
-  add: (value: T, key?: IDBValidKey) => Promise<IDBValidKey>;
-  put: (value: T, key?: IDBValidKey) => Promise<IDBValidKey>;
-  delete: (key: IDBValidKey | IDBKeyRange) => Promise<void>;
+  add: (value: T, key?: K) => Promise<K>;
+  put: (value: T, key?: K) => Promise<K>;
+  delete: (key: K | IDBKeyRange) => Promise<void>;
   clear: () => Promise<void>;
-  get: (key: IDBValidKey) => Promise<T | undefined>;
-  getAll: (query?: IDBKeyRange | IDBValidKey, count?: number) => Promise<T[]>;
-  count: (query?: IDBKeyRange | IDBValidKey) => Promise<number>;
+  get: (key: K) => Promise<T | undefined>;
+  getAll: (query?: IDBKeyRange | K, count?: number) => Promise<T[]>;
+  count: (query?: IDBKeyRange | K) => Promise<number>;
+  find: (options: QueryOptions<T, I>) => Promise<T[]>;
+  bulkAdd: (values: T[], options?: BulkOptions) => Promise<BulkResult<K>>;
+  bulkPut: (values: T[], options?: BulkOptions) => Promise<BulkResult<K>>;
+  bulkGet: (keys: K[], options?: BulkOptions) => Promise<BulkResult<T>>;
+  bulkDelete: (keys: K[], options?: BulkOptions) => Promise<BulkResult<void>>;
   refresh: () => Promise<void>;
+  mutations: OptimisticMutation[];
+  clearMutations: () => void;
 }
 
 export interface IndexedDBContextValue {
   db: IDBDatabase | null;
+  config: DatabaseConfig;
   state: IndexedDBState;
-  executeTransaction: <T = any>(transaction: Transaction) => Promise<T>;
+  executeTransaction: <T extends unknown[] = unknown[]>(transaction: Transaction) => Promise<T>;
+  executeBulk: <R = unknown>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operations: Operation[],
+    options?: BulkOptions
+  ) => Promise<BulkResult<R>>;
+  transaction: <R>(
+    storeNames: string | string[],
+    mode: IDBTransactionMode,
+    callback: TransactionCallback<R>
+  ) => Promise<R>;
   subscribe: <T = any>(storeName: string, callback: SubscriptionCallback<T>) => Subscription;
+  subscribeChanges: <T = unknown>(storeName: string, callback: ChangeCallback<T>) => Subscription;
+  subscribeRecord: <T = unknown>(storeName: string, key: IDBValidKey, callback: RecordCallback<T>) => Subscription;
+  query: <T = unknown>(storeName: string) => QueryBuilder<T>;
+  trackStores: <R>(querier: () => Promise<R>) => Promise<{ result: R; stores: string[] }>;
+  sync: SyncEngine | null;
+  getView: <R>(view: ViewDefinition<R>) => Promise<R>;
+  suspenseCache: SuspenseCache;
 }
\ No newline at end of file